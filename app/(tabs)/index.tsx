@@ -1,98 +1,385 @@
-import { Image } from 'expo-image';
-import { Platform, StyleSheet } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import * as Location from 'expo-location';
+import { router } from 'expo-router';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, AppState, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
 
-import { HelloWave } from '@/components/hello-wave';
-import ParallaxScrollView from '@/components/parallax-scroll-view';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
-import { Link } from 'expo-router';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useNow } from '@/hooks/use-now';
+import { usePersistedStore } from '@/hooks/use-persisted-store';
+import { useStore } from '@/hooks/use-store';
+import { requestLinkAction, type LinkAction } from '@/lib/deep-links';
+import { historyStore, isListedEntry, type HistoryKind } from '@/lib/history';
+import { HISTORY_TITLES } from '@/lib/history-export';
+import { incidentStore, isUnderDuress } from '@/lib/incident';
+import { buildLocationText } from '@/lib/location-links';
+import { checkPermissions, fixPermission, type PermissionHealth } from '@/lib/permissions';
+import { finishSafewalk, remainingSeconds, safewalkStore } from '@/lib/safewalk';
+import { arriveSafewalk } from '@/lib/safewalk-destination';
+import { recordFix, trackingStore } from '@/lib/tracking';
+
+const KIND_COLORS: Record<HistoryKind, string> = {
+  sos: '#ff3b30',
+  safewalk: '#ff9500',
+  recording: '#5856d6',
+};
+
+const RECENT_ENTRIES = 3;
+
+const SHORTCUTS: { label: string; icon: IconSymbolName; color: string; action: LinkAction }[] = [
+  { label: 'Send SOS', icon: 'exclamationmark.triangle.fill', color: '#ff3b30', action: { kind: 'sos' } },
+  { label: 'Safewalk 15m', icon: 'figure.walk', color: '#ff9500', action: { kind: 'safewalk', minutes: 15 } },
+  { label: 'Fake Call', icon: 'phone.fill', color: '#007aff', action: { kind: 'fakecall', delaySec: 10 } },
+];
+
+function formatAge(ms: number) {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours} h ago` : `${Math.floor(hours / 24)} d ago`;
+}
+
+function formatCountdown(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function DashboardScreen() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const cardColor = isDark ? '#1C1C1E' : '#F2F2F7';
+  const incidentState = useStore(incidentStore);
+  const { lastFix } = useStore(trackingStore);
+  const [safewalk] = usePersistedStore(safewalkStore);
+  const [history] = usePersistedStore(historyStore);
+  const [permissions, setPermissions] = useState<PermissionHealth[]>([]);
+  const [isLocating, setIsLocating] = useState(false);
+  const isSafewalkActive = safewalk?.status === 'active';
+  const now = useNow(isSafewalkActive ? 1000 : 30_000);
+
+  // Under duress the dashboard must agree with the SOS tab that all is well.
+  const underDuress = isUnderDuress(incidentState);
+  const { phase } = incidentState;
+  const status =
+    phase === 'countdown'
+      ? { text: 'Sending SOS…', detail: 'Open the SOS tab to cancel.', color: '#ff9500' }
+      : phase === 'active' && !underDuress
+        ? { text: 'Emergency Active', detail: 'Your contacts have been alerted.', color: '#ff3b30' }
+        : safewalk?.status === 'expired'
+          ? { text: 'Safewalk Overdue', detail: 'Check in now or SOS will be sent.', color: '#ff3b30' }
+          : isSafewalkActive
+            ? { text: 'Safewalk in Progress', detail: 'Your contacts expect you to check in.', color: '#ff9500' }
+            : { text: 'System Secure', detail: 'Hold SOS on the SOS tab in an emergency.', color: '#34c759' };
+
+  const refreshPermissions = useCallback(() => {
+    checkPermissions().then(setPermissions);
+  }, []);
+
+  useEffect(() => {
+    refreshPermissions();
+    const subscription = AppState.addEventListener('change', (next) => {
+      if (next === 'active') refreshPermissions();
+    });
+    return () => subscription.remove();
+  }, [refreshPermissions]);
+
+  const locate = async () => {
+    setIsLocating(true);
+    try {
+      const { status: permission } = await Location.requestForegroundPermissionsAsync();
+      if (permission !== 'granted') {
+        Alert.alert('Location not available', 'Allow location access to see where you are.');
+        return;
+      }
+      recordFix(await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High }));
+    } catch {
+      Alert.alert('Location not available', 'Could not get a fix. Try again outdoors.');
+    } finally {
+      setIsLocating(false);
+      refreshPermissions();
+    }
+  };
+
+  const runShortcut = (action: LinkAction) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    requestLinkAction(action, 'shortcut');
+  };
+
+  const arrive = () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    arriveSafewalk('manual').catch(() =>
+      Alert.alert('Arrival not sent', 'Your Safewalk has ended, but your contacts could not be told you arrived.')
+    );
+  };
+
+  const missing = permissions.filter((permission) => !permission.granted);
+  // The history already hides an alert stood down under duress.
+  const recent = useMemo(() => history.filter(isListedEntry).slice(0, RECENT_ENTRIES), [history]);
 
-export default function HomeScreen() {
   return (
-    <ParallaxScrollView
-      headerBackgroundColor={{ light: '#A1CEDC', dark: '#1D3D47' }}
-      headerImage={
-        <Image
-          source={require('@/assets/images/partial-react-logo.png')}
-          style={styles.reactLogo}
-        />
-      }>
-      <ThemedView style={styles.titleContainer}>
-        <ThemedText type="title">Welcome!</ThemedText>
-        <HelloWave />
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 1: Try it</ThemedText>
-        <ThemedText>
-          Edit <ThemedText type="defaultSemiBold">app/(tabs)/index.tsx</ThemedText> to see changes.
-          Press{' '}
-          <ThemedText type="defaultSemiBold">
-            {Platform.select({
-              ios: 'cmd + d',
-              android: 'cmd + m',
-              web: 'F12',
-            })}
-          </ThemedText>{' '}
-          to open developer tools.
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <Link href="/modal">
-          <Link.Trigger>
-            <ThemedText type="subtitle">Step 2: Explore</ThemedText>
-          </Link.Trigger>
-          <Link.Preview />
-          <Link.Menu>
-            <Link.MenuAction title="Action" icon="cube" onPress={() => alert('Action pressed')} />
-            <Link.MenuAction
-              title="Share"
-              icon="square.and.arrow.up"
-              onPress={() => alert('Share pressed')}
-            />
-            <Link.Menu title="More" icon="ellipsis">
-              <Link.MenuAction
-                title="Delete"
-                icon="trash"
-                destructive
-                onPress={() => alert('Delete pressed')}
-              />
-            </Link.Menu>
-          </Link.Menu>
-        </Link>
-
-        <ThemedText>
-          {`Tap the Explore tab to learn more about what's included in this starter app.`}
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 3: Get a fresh start</ThemedText>
-        <ThemedText>
-          {`When you're ready, run `}
-          <ThemedText type="defaultSemiBold">npm run reset-project</ThemedText> to get a fresh{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> directory. This will move the current{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> to{' '}
-          <ThemedText type="defaultSemiBold">app-example</ThemedText>.
-        </ThemedText>
-      </ThemedView>
-    </ParallaxScrollView>
+    <ThemedView style={styles.container}>
+      <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <ThemedText style={styles.greeting}>Safety Dashboard</ThemedText>
+        </View>
+
+        <View style={[styles.statusCard, { backgroundColor: `${status.color}1A` }]}>
+          <View style={[styles.statusDot, { backgroundColor: status.color }]} />
+          <View style={styles.flex}>
+            <ThemedText style={styles.statusTitle}>{status.text}</ThemedText>
+            <ThemedText style={styles.statusDetail}>{status.detail}</ThemedText>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>Shortcuts</ThemedText>
+          <View style={styles.shortcuts}>
+            {SHORTCUTS.map((shortcut) => (
+              <TouchableOpacity
+                key={shortcut.label}
+                style={[styles.shortcut, { backgroundColor: cardColor }]}
+                onPress={() => runShortcut(shortcut.action)}
+              >
+                <IconSymbol name={shortcut.icon} size={26} color={shortcut.color} />
+                <ThemedText style={styles.shortcutLabel}>{shortcut.label}</ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {safewalk && (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Safewalk</ThemedText>
+            <View style={[styles.card, { backgroundColor: cardColor }]}>
+              <View style={styles.flex}>
+                <ThemedText style={styles.timer}>
+                  {isSafewalkActive ? formatCountdown(remainingSeconds(safewalk, now)) : 'Time is up'}
+                </ThemedText>
+                <ThemedText style={styles.cardDetail}>
+                  {safewalk.destination ? `Walking to ${safewalk.destination.name}` : 'Timer mode'}
+                </ThemedText>
+              </View>
+              <TouchableOpacity
+                style={[styles.pillButton, { backgroundColor: '#34c759' }]}
+                onPress={() => {
+                  if (isSafewalkActive) {
+                    arrive();
+                    return;
+                  }
+                  finishSafewalk().catch((error) => console.warn('Ending Safewalk failed:', error));
+                  Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+                }}
+              >
+                <ThemedText style={styles.pillButtonText}>{isSafewalkActive ? 'Arrived' : 'I am Safe'}</ThemedText>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>Last Known Location</ThemedText>
+          <View style={[styles.card, { backgroundColor: cardColor }]}>
+            <IconSymbol name="mappin.and.ellipse" size={22} color="#ff3b30" />
+            <View style={styles.flex}>
+              {lastFix ? (
+                <>
+                  <ThemedText style={styles.cardTitle} numberOfLines={2}>
+                    {buildLocationText(lastFix)}
+                  </ThemedText>
+                  <ThemedText style={styles.cardDetail}>
+                    Updated {formatAge(now - lastFix.at)}
+                    {lastFix.accuracy !== null ? ` · ±${Math.round(lastFix.accuracy)} m` : ''}
+                  </ThemedText>
+                </>
+              ) : (
+                <ThemedText style={styles.cardDetail}>No location yet.</ThemedText>
+              )}
+            </View>
+            <TouchableOpacity disabled={isLocating} onPress={locate}>
+              <ThemedText style={styles.link}>{isLocating ? 'Locating…' : 'Refresh'}</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <ThemedText style={styles.sectionTitle}>Recent Incidents</ThemedText>
+            <TouchableOpacity onPress={() => router.push('/history')}>
+              <ThemedText style={styles.link}>History</ThemedText>
+            </TouchableOpacity>
+          </View>
+          {recent.map((entry) => (
+            <TouchableOpacity
+              key={entry.id}
+              style={[styles.card, { backgroundColor: cardColor }]}
+              onPress={() => router.push(`/history/${entry.id}`)}
+            >
+              <View style={[styles.statusDot, { backgroundColor: KIND_COLORS[entry.kind] }]} />
+              <View style={styles.flex}>
+                <ThemedText style={styles.cardTitle}>{HISTORY_TITLES[entry.kind]}</ThemedText>
+                <ThemedText style={styles.cardDetail}>
+                  Started {formatAge(now - entry.startedAt)} · {entry.endedAt === null ? 'In progress' : entry.outcome}
+                </ThemedText>
+              </View>
+            </TouchableOpacity>
+          ))}
+          {recent.length === 0 && <ThemedText style={styles.emptyText}>No incidents yet.</ThemedText>}
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>Permissions</ThemedText>
+          {missing.length === 0 && permissions.length > 0 && (
+            <ThemedText style={styles.emptyText}>Everything SosDost needs is allowed.</ThemedText>
+          )}
+          {missing.map((permission) => (
+            <TouchableOpacity
+              key={permission.id}
+              style={[styles.card, { backgroundColor: cardColor }]}
+              onPress={() => fixPermission(permission).then(refreshPermissions)}
+            >
+              <IconSymbol name="exclamationmark.circle.fill" size={22} color="#ff9500" />
+              <View style={styles.flex}>
+                <ThemedText style={styles.cardTitle}>{permission.label}</ThemedText>
+                <ThemedText style={styles.cardDetail}>{permission.purpose}</ThemedText>
+              </View>
+              <ThemedText style={styles.link}>{permission.canAskAgain ? 'Allow' : 'Settings'}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity style={styles.openSos} onPress={() => router.navigate('/sos')}>
+          <ThemedText style={styles.openSosText}>Open Emergency Hub</ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+    </ThemedView>
   );
 }
 
 const styles = StyleSheet.create({
-  titleContainer: {
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 20,
+  },
+  greeting: {
+    fontSize: 24,
+    fontWeight: '800',
+    letterSpacing: -0.5,
+  },
+  flex: {
+    flex: 1,
+  },
+  statusCard: {
     flexDirection: 'row',
     alignItems: 'center',
-    gap: 8,
+    gap: 12,
+    marginHorizontal: 24,
+    padding: 18,
+    borderRadius: 20,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  statusTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  statusDetail: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  section: {
+    paddingHorizontal: 24,
+    marginTop: 28,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 12,
   },
-  stepContainer: {
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  shortcuts: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  shortcut: {
+    flex: 1,
+    alignItems: 'center',
     gap: 8,
-    marginBottom: 8,
-  },
-  reactLogo: {
-    height: 178,
-    width: 290,
-    bottom: 0,
-    left: 0,
-    position: 'absolute',
+    paddingVertical: 16,
+    borderRadius: 18,
+  },
+  shortcutLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 18,
+    marginBottom: 10,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cardDetail: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  timer: {
+    fontSize: 28,
+    lineHeight: 34,
+    fontWeight: '800',
+    fontVariant: ['tabular-nums'],
+  },
+  pillButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  pillButtonText: {
+    color: '#FFF',
+    fontWeight: '700',
+  },
+  link: {
+    color: '#ff3b30',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.5,
+  },
+  openSos: {
+    marginHorizontal: 24,
+    marginTop: 28,
+    height: 54,
+    borderRadius: 16,
+    backgroundColor: '#ff3b30',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  openSosText: {
+    color: '#FFF',
+    fontSize: 17,
+    fontWeight: '700',
   },
 });
@@ -0,0 +1,188 @@
+import { useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Collapsible } from '@/components/ui/collapsible';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { usePersistedStore } from '@/hooks/use-persisted-store';
+import { dialNumber } from '@/lib/calls';
+import { numbersFor } from '@/lib/emergency-numbers';
+import { currentRegion, regionStore } from '@/lib/region';
+import { buildHelplineDirectory, resourcesFor, searchHelplines, type Helpline } from '@/lib/resources/catalog';
+import { settingsStore } from '@/lib/settings';
+
+export default function ResourcesScreen() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const cardColor = isDark ? '#1C1C1E' : '#F2F2F7';
+  // Subscribed so the local helplines follow a region change.
+  usePersistedStore(settingsStore);
+  usePersistedStore(regionStore);
+  const region = currentRegion();
+  const [query, setQuery] = useState('');
+
+  const bundle = useMemo(() => resourcesFor(), []);
+  const directory = useMemo(() => buildHelplineDirectory(bundle), [bundle]);
+  const helplines = useMemo(() => searchHelplines(directory, query, region), [directory, query, region]);
+
+  const call = async (line: Helpline) => {
+    if (!(await dialNumber(line.phone))) {
+      Alert.alert('Cannot place calls', `Dial ${line.phone} from another phone.`);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <ThemedText style={styles.greeting}>Safety Resources</ThemedText>
+          <ThemedText style={styles.subtitle}>Available offline</ThemedText>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>Helplines</ThemedText>
+          <TextInput
+            placeholder="Search by country, service or number"
+            placeholderTextColor="#888"
+            style={[styles.search, { backgroundColor: cardColor, color: isDark ? '#FFF' : '#000' }]}
+            value={query}
+            onChangeText={setQuery}
+            autoCorrect={false}
+          />
+          {!query.trim() && <ThemedText style={styles.caption}>Numbers for {numbersFor(region).name}</ThemedText>}
+          {helplines.length === 0 && <ThemedText style={styles.emptyText}>No helplines match “{query.trim()}”.</ThemedText>}
+          {helplines.map((line) => (
+            <TouchableOpacity
+              key={line.id}
+              style={[styles.card, { backgroundColor: cardColor }]}
+              onPress={() => call(line)}
+            >
+              <View style={styles.flex}>
+                <ThemedText style={styles.cardTitle}>{line.name}</ThemedText>
+                <ThemedText style={styles.cardDetail}>
+                  {query.trim() ? `${line.regionName} · ` : ''}
+                  {line.phone}
+                  {line.hours ? ` · ${line.hours}` : ''}
+                </ThemedText>
+              </View>
+              <IconSymbol name="phone.fill" size={20} color="#34c759" />
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {bundle.sections.map((section) => (
+          <View key={section.id} style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>{section.title}</ThemedText>
+            <View style={styles.guides}>
+              {section.guides.map((guide) => (
+                <Collapsible key={guide.id} title={guide.title}>
+                  {guide.warning && <ThemedText style={styles.warning}>{guide.warning}</ThemedText>}
+                  {guide.steps.map((step, i) => (
+                    <View key={i} style={styles.step}>
+                      <ThemedText style={styles.stepNumber}>{i + 1}.</ThemedText>
+                      <ThemedText style={styles.flex}>{step}</ThemedText>
+                    </View>
+                  ))}
+                </Collapsible>
+              ))}
+            </View>
+          </View>
+        ))}
+
+        <View style={styles.section}>
+          <ThemedText style={styles.caption}>{bundle.disclaimer}</ThemedText>
+          <ThemedText style={styles.caption}>
+            Content v{bundle.version} · reviewed {bundle.reviewedOn}
+          </ThemedText>
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 4,
+  },
+  greeting: {
+    fontSize: 24,
+    fontWeight: '800',
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  flex: {
+    flex: 1,
+  },
+  section: {
+    paddingHorizontal: 24,
+    marginTop: 28,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  search: {
+    height: 44,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  caption: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginBottom: 8,
+  },
+  emptyText: {
+    opacity: 0.5,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 10,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cardDetail: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  guides: {
+    gap: 14,
+  },
+  warning: {
+    color: '#ff3b30',
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  step: {
+    flexDirection: 'row',
+    gap: 6,
+    marginBottom: 4,
+  },
+  stepNumber: {
+    fontVariant: ['tabular-nums'],
+    opacity: 0.6,
+  },
+});
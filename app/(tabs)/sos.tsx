@@ -1,5 +1,5 @@
-import { StyleSheet, View, ScrollView, TouchableOpacity, Alert, FlatList, Pressable, Dimensions, Modal, TextInput, Platform, Share, ActionSheetIOS } from 'react-native';
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Alert, FlatList, Pressable, Dimensions, Modal, Platform, Share, ActionSheetIOS } from 'react-native';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Image } from 'expo-image';
 import Animated, { 
   useSharedValue, 
@@ -16,25 +16,86 @@ import * as Haptics from 'expo-haptics';
 import * as Contacts from 'expo-contacts';
 import * as Location from 'expo-location';
 import * as Linking from 'expo-linking';
+import { router } from 'expo-router';
+import { ContactEditor, type EditorTarget } from '@/components/contact-editor';
+import { ContactOrderSheet } from '@/components/contact-order-sheet';
+import { ContactPicker } from '@/components/contact-picker';
+import { DestinationPicker } from '@/components/destination-picker';
+import { EscalationPanel } from '@/components/escalation-panel';
+import { FakeCallSheet } from '@/components/fake-call-sheet';
+import { PhotoBurst } from '@/components/photo-burst';
+import { PinPad } from '@/components/pin-pad';
+import { RegionPicker } from '@/components/region-picker';
+import { RecordingIndicator } from '@/components/recording-indicator';
+import { SmsGatewaySheet } from '@/components/sms-gateway-sheet';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { VideoRecorder } from '@/components/video-recorder';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useNow } from '@/hooks/use-now';
+import { usePersistedStore } from '@/hooks/use-persisted-store';
+import { useStore } from '@/hooks/use-store';
+import { dispatchStore, hasBackgroundTransport } from '@/lib/alerts/dispatch';
+import { authenticateOwner } from '@/lib/app-lock';
+import { startAudioRecording } from '@/lib/audio-recording';
+import type { DeliveryStatus } from '@/lib/alerts/types';
+import { dialNumber } from '@/lib/calls';
+import { CONTACT_GROUPS, contactsStore, isEmergencyService, type EmergencyContact } from '@/lib/contacts';
+import { pendingLinkStore, takePendingLink, type PendingLink } from '@/lib/deep-links';
+import { numbersFor } from '@/lib/emergency-numbers';
+import { buildLocationText, nativeMapLink, type Coordinates } from '@/lib/location-links';
+import { estimateArrivalWindow } from '@/lib/geo';
+import { callersStore, scheduleFakeCall } from '@/lib/fake-call';
+import { incidentStore, isIncidentOpen, isUnderDuress, moveIncident } from '@/lib/incident';
+import { formatPhone } from '@/lib/phone';
+import { pinStore, setPin, type PinKind } from '@/lib/pin';
+import { currentRegion, noteRegion, regionStore } from '@/lib/region';
+import { finishSafewalk, remainingSeconds, safewalkStore, startSafewalk as beginSafewalk } from '@/lib/safewalk';
+import { arriveSafewalk } from '@/lib/safewalk-destination';
+import { escalateSafewalk } from '@/lib/safewalk-escalation';
+import { settingsStore, type SafetySettings } from '@/lib/settings';
+import { confirmSafe, reportSos, standDownWithPin, triggerSos } from '@/lib/sos';
+import { recordFix, trackingStore } from '@/lib/tracking';
+import { volumeKeysSupported } from '@/lib/triggers/hands-free';
 
 const { width } = Dimensions.get('window');
 
-interface EmergencyContact {
-  id: string;
-  name: string;
-  phone: string;
-  icon: string;
-  relation: string;
-}
+const DELIVERY_LABELS: Record<DeliveryStatus, { text: string; color: string }> = {
+  pending: { text: 'Sending…', color: '#ff9500' },
+  sent: { text: 'Sent', color: '#34c759' },
+  unknown: { text: 'Handed to SMS app', color: '#34c759' },
+  queued: { text: 'Waiting to send', color: '#ff9500' },
+  cancelled: { text: 'Not sent', color: '#ff3b30' },
+  failed: { text: 'Failed', color: '#ff3b30' },
+};
+
+const CANCEL_WINDOW_CHOICES = [0, 3, 5, 10];
+
+const SHAKE_LABELS: Record<SafetySettings['shakeSensitivity'], string> = {
+  off: 'Off',
+  low: 'Hard',
+  medium: 'Firm',
+  high: 'Light',
+};
 
-const DEFAULT_CONTACTS: EmergencyContact[] = [
-  { id: 'police', name: 'Police Control', phone: '100', icon: 'shield.fill', relation: 'Official' },
-  { id: 'ambulance', name: 'Ambulance', phone: '102', icon: 'cross.circle.fill', relation: 'Medical' },
-];
+/** `standDown` on create and confirm: the new cancel PIN stands the current alert down once saved. */
+type PinPrompt =
+  | { mode: 'standDown' }
+  | { mode: 'create'; kind: PinKind; standDown?: boolean }
+  | { mode: 'confirm'; kind: PinKind; first: string; standDown?: boolean };
+
+const PIN_PROMPT_TEXT: Record<PinKind, { title: string; subtitle: string }> = {
+  cancel: {
+    title: 'cancel PIN',
+    subtitle: 'This PIN will be needed to stop an SOS once alerts have been sent.',
+  },
+  duress: {
+    title: 'duress PIN',
+    subtitle:
+      'If you are forced to cancel, enter this instead. The app will look safe, but tracking and recording continue and, through your SMS gateway, your contacts are told you are under duress. To really stop, long-press "System Secure" and enter your cancel PIN.',
+  },
+};
 
 const PulseRing = ({ delay = 0, color = '#ff3b30' }) => {
   const pulse = useSharedValue(0);
@@ -69,44 +130,119 @@ const PulseRing = ({ delay = 0, color = '#ff3b30' }) => {
   );
 };
 
+/** Ends a walk from its expiry prompt. */
+async function checkInSafe() {
+  try {
+    await finishSafewalk();
+  } catch (error) {
+    // The walk itself has ended; only clearing its reminders failed.
+    console.warn('Failed to clear Safewalk reminders:', error);
+    Alert.alert('Safewalk ended', 'Some Safewalk reminders could not be cancelled and may still appear. You can ignore them.');
+  }
+}
+
 export default function SOSScreen() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
-  const [isActivating, setIsActivating] = useState(false);
-  const [sosActive, setSOSActive] = useState(false);
-  const [priorityContacts, setPriorityContacts] = useState<EmergencyContact[]>(DEFAULT_CONTACTS);
+  const { phase, incident } = useStore(incidentStore);
+  const dispatchReport = useStore(dispatchStore);
+  const isActivating = phase === 'arming';
+  const underDuress = isUnderDuress({ phase, incident });
+  // Under duress the screen reads exactly like a cancelled alert.
+  const sosActive = phase === 'active' && !underDuress;
+  const isCountingDown = phase === 'countdown';
+  const pendingLink = useStore(pendingLinkStore);
+  const pins = useStore(pinStore);
+  const [pinPrompt, setPinPrompt] = useState<PinPrompt | null>(null);
+  const [priorityContacts, contactsHydrated] = usePersistedStore(contactsStore);
+  const [settings, settingsHydrated] = usePersistedStore(settingsStore);
+  const isHydrated = contactsHydrated && settingsHydrated;
   const [isPickerVisible, setIsPickerVisible] = useState(false);
+  const [editorTarget, setEditorTarget] = useState<EditorTarget | null>(null);
+  const [isOrderSheetVisible, setIsOrderSheetVisible] = useState(false);
   const [isRecordSheetVisible, setIsRecordSheetVisible] = useState(false);
-  const [deviceContacts, setDeviceContacts] = useState<Contacts.Contact[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [location, setLocation] = useState<Location.LocationObject | null>(null);
+  const [isVideoRecorderVisible, setIsVideoRecorderVisible] = useState(false);
+  const [isFakeCallVisible, setIsFakeCallVisible] = useState(false);
+  const [isRegionPickerVisible, setIsRegionPickerVisible] = useState(false);
+  const [isGatewaySheetVisible, setIsGatewaySheetVisible] = useState(false);
+  const { lastFix: location, reasons: trackingReasons, trail } = useStore(trackingStore);
   const [address, setAddress] = useState<string>('Fetching location...');
   const [isSafewalkVisible, setIsSafewalkVisible] = useState(false);
-  const [safewalkTime, setSafewalkTime] = useState(0);
-  const [isSafewalkActive, setIsSafewalkActive] = useState(false);
+  const [isDestinationPickerVisible, setIsDestinationPickerVisible] = useState(false);
+  const [safewalk] = usePersistedStore(safewalkStore);
+  const [region] = usePersistedStore(regionStore);
+  const isSafewalkActive = safewalk?.status === 'active';
+  const now = useNow(1000, isSafewalkActive);
+  const safewalkTime = safewalk ? remainingSeconds(safewalk, now) : 0;
+  const expiryPromptedFor = useRef<string | null>(null);
   
   const progress = useSharedValue(0);
 
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isSafewalkActive && safewalkTime > 0) {
-      interval = setInterval(() => {
-        setSafewalkTime((prev) => prev - 1);
-      }, 1000);
-    } else if (safewalkTime === 0 && isSafewalkActive) {
-      setIsSafewalkActive(false);
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-      Alert.alert('Safewalk Timer Ended', 'Are you safe? If not, trigger SOS immediately.');
-    }
-    return () => clearInterval(interval);
-  }, [isSafewalkActive, safewalkTime]);
+    if (safewalk?.status !== 'expired' || expiryPromptedFor.current === safewalk.id) return;
+    expiryPromptedFor.current = safewalk.id;
+    setIsSafewalkVisible(false);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    Alert.alert(
+      'Safewalk Timer Ended',
+      `Are you safe? If you do not check in within ${settings.safewalkGraceSec} seconds, SOS will be sent automatically.`,
+      [
+        {
+          text: 'Send SOS Now',
+          style: 'destructive',
+          onPress: () =>
+            escalateSafewalk(safewalk).catch(() =>
+              Alert.alert('SOS failed', 'Your contacts could not be alerted. Call them or emergency services directly.')
+            ),
+        },
+        { text: 'I am Safe', onPress: () => checkInSafe() },
+      ]
+    );
+  }, [safewalk, settings.safewalkGraceSec]);
 
-  const startSafewalk = (minutes: number) => {
-    setSafewalkTime(minutes * 60);
-    setIsSafewalkActive(true);
+  /** Starts the walk; `false` if its reminders could not be set, which the user has then been told. */
+  const beginWalk = useCallback(async (options: Parameters<typeof beginSafewalk>[0]) => {
     setIsSafewalkVisible(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    Alert.alert('Safewalk Started', `A message has been sent to your contacts: "I am starting a Safewalk. I am currently at ${address}. I will check in when I arrive."`);
+    try {
+      await beginSafewalk(options);
+      return true;
+    } catch (error) {
+      console.warn('Failed to schedule Safewalk reminders:', error);
+      Alert.alert(
+        'Safewalk reminders not set',
+        'Your walk has started, but your phone will not remind you when time is up. Keep SosDost open and check in before the timer ends.'
+      );
+      return false;
+    }
+  }, []);
+
+  const startSafewalk = useCallback(async (minutes: number) => {
+    if (!(await beginWalk({ minutes, startLocation: location }))) return;
+    Alert.alert(
+      'Safewalk Started',
+      `Check in within ${minutes} minutes. Your phone will notify you when time is up, even if SosDost is closed. If you do not check in, SOS goes out automatically while SosDost is open; if it is closed, that can be delayed until you open it.`
+    );
+  }, [beginWalk, location]);
+
+  const startDestinationWalk = async (destination: { name: string } & Coordinates) => {
+    if (!location) {
+      Alert.alert('Location not available', 'Your current location is needed to estimate the walk.');
+      return;
+    }
+    const { expectedMin, latestMin } = estimateArrivalWindow(location, destination);
+    setIsDestinationPickerVisible(false);
+    const started = await beginWalk({
+      minutes: latestMin,
+      startLocation: location,
+      destination: { ...destination, radiusM: 75 },
+      expectedMinutes: expectedMin,
+    });
+    if (!started) return;
+    Alert.alert(
+      'Safewalk Started',
+      `Expected at ${destination.name} in about ${expectedMin} min. Arrival is detected automatically; your contacts will be alerted if you are not there within ${latestMin} min.`
+    );
   };
 
   const formatTime = (seconds: number) => {
@@ -125,7 +261,7 @@ export default function SOSScreen() {
 
       try {
         let location = await Location.getCurrentPositionAsync({});
-        setLocation(location);
+        recordFix(location);
         
         let reverseGeocode = await Location.reverseGeocodeAsync({
           latitude: location.coords.latitude,
@@ -134,6 +270,7 @@ export default function SOSScreen() {
         
         if (reverseGeocode.length > 0) {
           const addr = reverseGeocode[0];
+          noteRegion(addr.isoCountryCode, location.coords);
           const displayAddr = `${addr.name || ''} ${addr.street || ''}, ${addr.city || ''}`.trim();
           setAddress(displayAddr || 'Unknown location');
         }
@@ -145,11 +282,9 @@ export default function SOSScreen() {
 
   const shareLocation = async () => {
     if (location) {
-      const { latitude, longitude } = location.coords;
-      const mapUrl = `https://www.google.com/maps/search/?api=1&query=${latitude},longitude=${longitude}`;
       try {
         await Share.share({
-          message: `My current location: ${address}\nView on map: ${mapUrl}`,
+          message: `My current location:\n${buildLocationText(location, address)}`,
         });
       } catch {
         Alert.alert('Error sharing location');
@@ -186,110 +321,207 @@ export default function SOSScreen() {
 
   const openMap = () => {
     if (location) {
-      const { latitude, longitude } = location.coords;
-      const url = Platform.select({
-        ios: `maps:0,0?q=${latitude},${longitude}`,
-        android: `geo:0,0?q=${latitude},${longitude}`,
-        web: `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`
-      });
-      if (url) Linking.openURL(url);
+      Linking.openURL(nativeMapLink(location, 'My location'));
     } else {
       Alert.alert('Location not available', 'Wait for location to be fetched.');
     }
   };
   const buttonScale = useSharedValue(1);
 
-  const triggerSOS = useCallback(() => {
-    setSOSActive(true);
-    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  // Once alerts are out, only the owner may stand them down, with the cancel
+  // PIN. The first time, the owner proves who they are with the device lock
+  // (which phones without a screen lock cannot) and then chooses one.
+  const requestStandDown = useCallback(async () => {
+    if (pinStore.getState().cancel) {
+      setPinPrompt({ mode: 'standDown' });
+    } else if (await authenticateOwner('Confirm you are safe')) {
+      setPinPrompt({ mode: 'create', kind: 'cancel', standDown: true });
+    }
+  }, []);
+
+  const submitPin = async (pin: string) => {
+    if (!pinPrompt) return null;
+    if (pinPrompt.mode === 'standDown') {
+      const result = await standDownWithPin(pin);
+      if (result === 'locked') return 'Too many attempts. Try again in a moment.';
+      if (result === 'wrong') return 'Wrong PIN';
+    } else if (pinPrompt.mode === 'create') {
+      setPinPrompt({ ...pinPrompt, mode: 'confirm', first: pin });
+      return null;
+    } else {
+      const { kind, standDown } = pinPrompt;
+      if (pin !== pinPrompt.first) {
+        setPinPrompt({ mode: 'create', kind, standDown });
+        return 'PINs did not match. Start again.';
+      }
+      try {
+        await setPin(kind, pin);
+      } catch (error) {
+        setPinPrompt({ mode: 'create', kind, standDown });
+        return error instanceof Error ? error.message : 'Could not save the PIN';
+      }
+      if (standDown) confirmSafe('new cancel PIN');
+    }
+    setPinPrompt(null);
+    return null;
+  };
+
+  // The duress notice has to go out unseen, which only a gateway can do.
+  const chooseDuressPin = () => {
+    if (hasBackgroundTransport()) {
+      setPinPrompt({ mode: 'create', kind: 'duress' });
+      return;
+    }
     Alert.alert(
-      '🚨 SOS ACTIVATED',
-      'Emergency services and your primary contacts have been notified of your location.',
-      [{ text: 'I am Safe Now', onPress: () => setSOSActive(false), style: 'cancel' }]
+      'No background SMS',
+      'Without an SMS gateway, entering the duress PIN cannot tell your contacts anything: the app will look safe and keep tracking and recording, but nobody is warned.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Set Up Gateway', onPress: () => setIsGatewaySheetVisible(true) },
+        { text: 'Continue Anyway', onPress: () => setPinPrompt({ mode: 'create', kind: 'duress' }) },
+      ]
     );
-  }, []);
+  };
+
+  const chooseCancelWindow = () => {
+    Alert.alert(
+      'Cancel Window',
+      'How long to wait, beeping, before alerts go out. You can cancel an accidental trigger during this time.',
+      [
+        ...CANCEL_WINDOW_CHOICES.map((seconds) => ({
+          text: seconds === 0 ? 'Send immediately' : `${seconds} seconds`,
+          onPress: () => settingsStore.setState((current) => ({ ...current, cancelWindowSec: seconds })),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const chooseShakeSensitivity = () => {
+    Alert.alert(
+      'Shake to Send SOS',
+      'Shake the phone several times in quick succession to start SOS while the app is open. A lighter shake is easier to trigger by accident.',
+      [
+        ...(['off', 'low', 'medium', 'high'] as const).map((shakeSensitivity) => ({
+          text: shakeSensitivity === 'off' ? 'Off' : `${SHAKE_LABELS[shakeSensitivity]} shake`,
+          onPress: () => settingsStore.setState((current) => ({ ...current, shakeSensitivity })),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const chooseVolumeKeyTrigger = () => {
+    Alert.alert(
+      'Volume Keys',
+      'Press volume up and down alternately five times within 3 seconds to start SOS. Only works while SosDost is running.',
+      [
+        { text: 'Off', onPress: () => settingsStore.setState((current) => ({ ...current, volumeKeyTrigger: false })) },
+        { text: 'On', onPress: () => settingsStore.setState((current) => ({ ...current, volumeKeyTrigger: true })) },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const triggerSOS = useCallback((reason = 'SOS button held to completion') => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    reportSos(triggerSos({ reason, address }), requestStandDown);
+  }, [address, requestStandDown]);
+
+  // Links and quick actions only queue a request; it is confirmed here and
+  // then run exactly as the matching button would.
+  const handleLink = useCallback(({ action, source }: PendingLink) => {
+    const opened = `Opened from a ${source}.`;
+    switch (action.kind) {
+      case 'invalid':
+        Alert.alert('Link not recognised', action.reason);
+        return;
+      case 'sos':
+        if (isIncidentOpen(incidentStore.getState().phase)) return;
+        Alert.alert('Send SOS?', `${opened} Your priority contacts will be alerted.`, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Send SOS', style: 'destructive', onPress: () => triggerSOS(`SOS requested from a ${source}`) },
+        ]);
+        return;
+      case 'safewalk':
+        if (safewalkStore.getState()?.status === 'active') {
+          Alert.alert('Safewalk already running', 'Finish your current walk before starting another.');
+          return;
+        }
+        Alert.alert('Start Safewalk?', `${opened} Your contacts will expect you to check in within ${action.minutes} minutes.`, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Start', onPress: () => startSafewalk(action.minutes) },
+        ]);
+        return;
+      case 'fakecall': {
+        const [caller] = callersStore.getState();
+        if (!caller) {
+          Alert.alert('No callers', 'Add a caller under Fake Call first.');
+          return;
+        }
+        Alert.alert('Schedule Fake Call?', `${opened} ${caller.name} will call in ${action.delaySec} seconds.`, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Schedule', onPress: () => scheduleFakeCall(caller, action.delaySec) },
+        ]);
+        return;
+      }
+    }
+  }, [triggerSOS, startSafewalk]);
+
+  useEffect(() => {
+    if (!pendingLink || !isHydrated) return;
+    const link = takePendingLink();
+    if (link) handleLink(link);
+  }, [pendingLink, isHydrated, handleLink]);
 
   const handlePressIn = () => {
-    setIsActivating(true);
+    if (!moveIncident('arming', 'SOS button pressed')) return;
     buttonScale.value = withSpring(0.92);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
     
-    progress.value = withTiming(1, { duration: 2000 }, (finished) => {
+    progress.value = withTiming(1, { duration: settings.holdDurationMs }, (finished) => {
       if (finished) {
         runOnJS(triggerSOS)();
         progress.value = 0;
-        runOnJS(setIsActivating)(false);
       }
     });
   };
 
   const handlePressOut = () => {
-    if (!sosActive) {
-      setIsActivating(false);
+    if (moveIncident('idle', 'SOS button released before hold completed')) {
       cancelAnimation(progress);
       progress.value = withTiming(0, { duration: 300 });
-      buttonScale.value = withSpring(1);
     }
+    buttonScale.value = withSpring(1);
   };
 
   const openContactPicker = async () => {
     const { status } = await Contacts.requestPermissionsAsync();
     if (status === 'granted') {
-      const { data } = await Contacts.getContactsAsync({
-        fields: [Contacts.Fields.Emails, Contacts.Fields.PhoneNumbers],
-      });
-
-      if (data.length > 0) {
-        setDeviceContacts(data);
-        setIsPickerVisible(true);
-      } else {
-        Alert.alert('No contacts found');
-      }
+      setIsPickerVisible(true);
     } else {
       Alert.alert('Permission Denied', 'Please enable contacts permission in settings to add priority contacts.');
     }
   };
 
-  const addContact = (contact: Contacts.Contact) => {
-    const phoneNumber = contact.phoneNumbers?.[0]?.number;
-    if (!phoneNumber) {
+  const addContact = (contact: Contacts.ExistingContact) => {
+    if (!contact.phoneNumbers?.some((entry) => entry.number)) {
       Alert.alert('Error', 'This contact has no phone number');
       return;
     }
-
-    const newContact: EmergencyContact = {
-      id: contact.id || Math.random().toString(),
-      name: contact.name,
-      phone: phoneNumber,
-      icon: 'person.fill',
-      relation: 'Added Contact',
-    };
-
-    if (priorityContacts.find(c => c.phone === phoneNumber)) {
-      Alert.alert('Info', 'Contact already in priority list');
-      return;
-    }
-
-    setPriorityContacts([...priorityContacts, newContact]);
     setIsPickerVisible(false);
-    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setEditorTarget({ picked: contact });
   };
 
-  const removeContact = (id: string) => {
-    if (id === 'police' || id === 'ambulance') {
-      Alert.alert('Action Restricted', 'Default emergency services cannot be removed.');
+  const editContact = (contact: EmergencyContact) => {
+    if (isEmergencyService(contact)) {
+      Alert.alert('Action Restricted', 'Default emergency services follow your region and cannot be edited.');
       return;
     }
-    setPriorityContacts(priorityContacts.filter(c => c.id !== id));
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setEditorTarget({ contact });
   };
 
-  const filteredContacts = useMemo(() => {
-    return deviceContacts.filter(c => 
-      c.name.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }, [deviceContacts, searchQuery]);
-
   const animatedButtonStyle = useAnimatedStyle(() => ({
     transform: [{ scale: buttonScale.value }],
     backgroundColor: interpolate(progress.value, [0, 1], [0, 1]) > 0.5 ? '#d32f2f' : '#ff3b30',
@@ -300,10 +532,16 @@ export default function SOSScreen() {
     opacity: isActivating ? 1 : 0,
   }));
 
-  const handleRecordAction = (type: 'audio' | 'video') => {
+  const handleRecordAction = async (type: 'audio' | 'video') => {
     setIsRecordSheetVisible(false);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    Alert.alert(`Starting ${type} recording...`, 'The feed will be uploaded to the safety cloud.');
+    if (type === 'video') {
+      setIsVideoRecorderVisible(true);
+      return;
+    }
+    if (!(await startAudioRecording())) {
+      Alert.alert('Microphone access needed', 'Allow microphone access in Settings to record audio evidence.');
+    }
   };
 
   const renderContactCard = ({ item }: { item: EmergencyContact }) => (
@@ -313,17 +551,29 @@ export default function SOSScreen() {
         { backgroundColor: isDark ? '#1C1C1E' : '#FFFFFF' },
         styles.shadow
       ]}
-      onLongPress={() => removeContact(item.id)}
+      onLongPress={() => editContact(item)}
       onPress={() => {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-        Alert.alert(`Call ${item.name}?`, `Dialing ${item.phone}`);
+        Alert.alert(`Call ${item.name}?`, formatPhone(item.phone), [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Call',
+            onPress: async () => {
+              if (!(await dialNumber(item.phone))) {
+                Alert.alert('Unable to call', 'This device cannot place phone calls.');
+              }
+            },
+          },
+        ]);
       }}>
       <View style={[styles.contactIconContainer, { backgroundColor: isDark ? '#2C2C2E' : '#F2F2F7' }]}>
         <IconSymbol name={item.icon as any} size={20} color="#ff3b30" />
       </View>
       <View style={styles.contactInfo}>
         <ThemedText style={styles.contactName}>{item.name}</ThemedText>
-        <ThemedText style={styles.contactRelation}>{item.relation}</ThemedText>
+        <ThemedText style={styles.contactRelation}>
+          {item.group ? `${CONTACT_GROUPS[item.group]} · ${item.relation}` : item.relation}
+        </ThemedText>
       </View>
       <View style={styles.callButton}>
         <IconSymbol name="phone.fill" size={14} color="#FFF" />
@@ -344,12 +594,21 @@ export default function SOSScreen() {
               <ThemedText style={styles.addressText} numberOfLines={1}>{address}</ThemedText>
               <IconSymbol name="square.and.arrow.up" size={12} color="#ff3b30" style={{ marginLeft: 4 }} />
             </TouchableOpacity>
-            <View style={styles.statusBadge}>
+            <TouchableOpacity
+              style={styles.statusBadge}
+              activeOpacity={1}
+              disabled={!underDuress}
+              onLongPress={() => setPinPrompt({ mode: 'standDown' })}
+            >
               <View style={[styles.statusDot, { backgroundColor: sosActive ? '#ff3b30' : '#34c759' }]} />
               <ThemedText style={styles.statusText}>{sosActive ? 'Emergency Active' : 'System Secure'}</ThemedText>
-            </View>
+            </TouchableOpacity>
+            <RecordingIndicator />
           </View>
-          <TouchableOpacity style={[styles.profileButton, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}>
+          <TouchableOpacity
+            style={[styles.profileButton, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}
+            onPress={() => router.push('/history')}
+          >
             <IconSymbol name="person.crop.circle.fill" size={28} color={isDark ? '#FFF' : '#000'} />
           </TouchableOpacity>
         </View>
@@ -368,7 +627,7 @@ export default function SOSScreen() {
             <Pressable
               onPressIn={handlePressIn}
               onPressOut={handlePressOut}
-              disabled={sosActive}
+              disabled={sosActive || isCountingDown || !isHydrated}
             >
               <Animated.View style={[styles.sosButton, animatedButtonStyle, styles.sosShadow]}>
                 <IconSymbol name="exclamationmark.triangle.fill" size={64} color="#FFF" />
@@ -385,10 +644,82 @@ export default function SOSScreen() {
               </View>
             ) : (
               <ThemedText style={styles.sosHint}>
-                {sosActive ? 'Help is on the way. Stay calm.' : 'Hold for 2 seconds to trigger emergency'}
+                {sosActive
+                  ? 'Help is on the way. Stay calm.'
+                  : `Hold for ${settings.holdDurationMs / 1000} seconds to trigger emergency`}
               </ThemedText>
             )}
           </View>
+
+          {sosActive ? (
+            <TouchableOpacity style={styles.safeButton} onPress={requestStandDown}>
+              <IconSymbol name="checkmark.shield.fill" size={18} color="#FFF" />
+              <ThemedText style={styles.safeButtonText}>I am Safe Now</ThemedText>
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.cancelSettings}>
+              <TouchableOpacity onPress={chooseCancelWindow}>
+                <ThemedText style={styles.cancelSettingsText}>
+                  {settings.cancelWindowSec > 0 ? `${settings.cancelWindowSec}s cancel window` : 'No cancel window'}
+                </ThemedText>
+              </TouchableOpacity>
+              <ThemedText style={styles.cancelSettingsText}>·</ThemedText>
+              <TouchableOpacity onPress={() => setPinPrompt({ mode: 'create', kind: 'cancel' })}>
+                <ThemedText style={[styles.cancelSettingsText, styles.cancelSettingsLink]}>
+                  {pins.cancel ? 'Change cancel PIN' : 'Set cancel PIN'}
+                </ThemedText>
+              </TouchableOpacity>
+              {pins.cancel && (
+                <>
+                  <ThemedText style={styles.cancelSettingsText}>·</ThemedText>
+                  <TouchableOpacity onPress={chooseDuressPin}>
+                    <ThemedText style={[styles.cancelSettingsText, styles.cancelSettingsLink]}>
+                      {pins.duress ? 'Change duress PIN' : 'Set duress PIN'}
+                    </ThemedText>
+                  </TouchableOpacity>
+                </>
+              )}
+              <View style={styles.cancelSettingsBreak} />
+              <TouchableOpacity onPress={chooseShakeSensitivity}>
+                <ThemedText style={[styles.cancelSettingsText, styles.cancelSettingsLink]}>
+                  Shake: {SHAKE_LABELS[settings.shakeSensitivity]}
+                </ThemedText>
+              </TouchableOpacity>
+              {volumeKeysSupported && (
+                <>
+                  <ThemedText style={styles.cancelSettingsText}>·</ThemedText>
+                  <TouchableOpacity onPress={chooseVolumeKeyTrigger}>
+                    <ThemedText style={[styles.cancelSettingsText, styles.cancelSettingsLink]}>
+                      Volume keys: {settings.volumeKeyTrigger ? 'On' : 'Off'}
+                    </ThemedText>
+                  </TouchableOpacity>
+                </>
+              )}
+              <ThemedText style={styles.cancelSettingsText}>·</ThemedText>
+              <TouchableOpacity onPress={() => setIsGatewaySheetVisible(true)}>
+                <ThemedText style={[styles.cancelSettingsText, styles.cancelSettingsLink]}>
+                  Background SMS: {settings.smsGatewayUrl ? 'Gateway' : 'Not set up'}
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {!underDuress && dispatchReport && dispatchReport.incidentId === incident?.id && (
+            <View style={[styles.dispatchPanel, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}>
+              <ThemedText style={styles.dispatchTitle}>Alert Delivery</ThemedText>
+              {dispatchReport.results.map((result) => (
+                <View key={result.contactId} style={styles.dispatchRow}>
+                  <ThemedText style={styles.dispatchName} numberOfLines={1}>{result.name}</ThemedText>
+                  <View style={[styles.statusDot, { backgroundColor: DELIVERY_LABELS[result.status].color }]} />
+                  <ThemedText style={styles.dispatchStatus}>{DELIVERY_LABELS[result.status].text}</ThemedText>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.escalationContainer}>
+            {!underDuress && <EscalationPanel isDark={isDark} />}
+          </View>
         </View>
 
         {/* Quick Actions Grid */}
@@ -398,7 +729,7 @@ export default function SOSScreen() {
             <ActionCard 
               image="https://img.icons8.com/fluency/96/marker.png" 
               label="Live Track" 
-              subLabel="View or Share" 
+              subLabel={trackingReasons.length > 0 && !underDuress ? `Live · ${trail.length} points` : 'View or Share'} 
               color="#34c759" 
               isDark={isDark} 
               onPress={handleLocationPress}
@@ -425,6 +756,7 @@ export default function SOSScreen() {
                     'Safewalk Timer',
                     'Set duration for your walk:',
                     [
+                      { text: 'To a Destination', onPress: () => setIsDestinationPickerVisible(true) },
                       { text: '10 Mins', onPress: () => startSafewalk(10) },
                       { text: '20 Mins', onPress: () => startSafewalk(20) },
                       { text: '30 Mins', onPress: () => startSafewalk(30) },
@@ -440,6 +772,7 @@ export default function SOSScreen() {
               subLabel="Privacy" 
               color="#007aff" 
               isDark={isDark} 
+              onPress={() => setIsFakeCallVisible(true)}
             />
           </View>
         </View>
@@ -448,10 +781,22 @@ export default function SOSScreen() {
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <ThemedText style={styles.sectionTitle}>Priority Contacts</ThemedText>
-            <TouchableOpacity onPress={openContactPicker}>
-              <ThemedText style={styles.editLink}>Manage</ThemedText>
-            </TouchableOpacity>
+            <View style={styles.sectionLinks}>
+              <TouchableOpacity onPress={() => setIsOrderSheetVisible(true)}>
+                <ThemedText style={styles.editLink}>Reorder</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={openContactPicker}>
+                <ThemedText style={styles.editLink}>Add</ThemedText>
+              </TouchableOpacity>
+            </View>
           </View>
+          <TouchableOpacity style={styles.regionRow} onPress={() => setIsRegionPickerVisible(true)}>
+            <IconSymbol name="globe" size={14} color="#8e8e93" />
+            <ThemedText style={styles.regionText}>
+              Numbers for {numbersFor(currentRegion()).name}
+              {settings.regionOverride ? '' : ' (automatic)'} · Change
+            </ThemedText>
+          </TouchableOpacity>
           <FlatList
             data={priorityContacts}
             renderItem={renderContactCard}
@@ -471,54 +816,57 @@ export default function SOSScreen() {
         <View style={styles.footerSpace} />
       </ScrollView>
 
-      {/* Contact Picker Modal */}
-      <Modal
+      <ContactPicker
         visible={isPickerVisible}
-        animationType="slide"
-        presentationStyle="pageSheet"
-        onRequestClose={() => setIsPickerVisible(false)}
-      >
-        <ThemedView style={styles.modalContainer}>
-          <View style={styles.modalHeader}>
-            <ThemedText style={styles.modalTitle}>Select Contact</ThemedText>
-            <TouchableOpacity onPress={() => setIsPickerVisible(false)}>
-              <ThemedText style={styles.closeText}>Close</ThemedText>
-            </TouchableOpacity>
-          </View>
-          
-          <View style={[styles.searchBar, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}>
-            <IconSymbol name="magnifyingglass" size={18} color={isDark ? '#FFF' : '#000'} opacity={0.5} />
-            <TextInput
-              placeholder="Search contacts..."
-              placeholderTextColor="#888"
-              style={[styles.searchInput, { color: isDark ? '#FFF' : '#000' }]}
-              value={searchQuery}
-              onChangeText={setSearchQuery}
-            />
-          </View>
+        isDark={isDark}
+        onClose={() => setIsPickerVisible(false)}
+        onSelect={addContact}
+      />
 
-          <FlatList
-            data={filteredContacts}
-            keyExtractor={(item) => item.id || Math.random().toString()}
-            renderItem={({ item }) => (
-              <TouchableOpacity 
-                style={styles.pickerItem}
-                onPress={() => addContact(item)}
-              >
-                <View style={[styles.pickerIcon, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}>
-                  <ThemedText style={styles.pickerInitial}>{item.name[0]}</ThemedText>
-                </View>
-                <View>
-                  <ThemedText style={styles.pickerName}>{item.name}</ThemedText>
-                  <ThemedText style={styles.pickerPhone}>
-                    {item.phoneNumbers?.[0]?.number || 'No number'}
-                  </ThemedText>
-                </View>
-              </TouchableOpacity>
-            )}
-          />
-        </ThemedView>
-      </Modal>
+      <VideoRecorder visible={isVideoRecorderVisible} onClose={() => setIsVideoRecorderVisible(false)} />
+      <PhotoBurst />
+      <RegionPicker
+        visible={isRegionPickerVisible}
+        isDark={isDark}
+        selected={settings.regionOverride}
+        detected={region.detected}
+        onClose={() => setIsRegionPickerVisible(false)}
+        onSelect={(regionOverride) => {
+          settingsStore.setState((current) => ({ ...current, regionOverride }));
+          setIsRegionPickerVisible(false);
+        }}
+      />
+      <SmsGatewaySheet
+        visible={isGatewaySheetVisible}
+        isDark={isDark}
+        onClose={() => setIsGatewaySheetVisible(false)}
+      />
+      <ContactEditor
+        visible={editorTarget !== null && !isPickerVisible}
+        isDark={isDark}
+        target={editorTarget}
+        onClose={() => setEditorTarget(null)}
+      />
+      <ContactOrderSheet visible={isOrderSheetVisible} isDark={isDark} onClose={() => setIsOrderSheetVisible(false)} />
+      <FakeCallSheet visible={isFakeCallVisible} isDark={isDark} onClose={() => setIsFakeCallVisible(false)} />
+      <PinPad
+        visible={pinPrompt !== null}
+        isDark={isDark}
+        title={
+          !pinPrompt || pinPrompt.mode === 'standDown'
+            ? 'Enter your PIN'
+            : `${pinPrompt.mode === 'confirm' ? 'Confirm your' : 'Choose a'} ${PIN_PROMPT_TEXT[pinPrompt.kind].title}`
+        }
+        subtitle={
+          !pinPrompt || pinPrompt.mode === 'standDown'
+            ? 'Your contacts have been alerted. Enter your PIN to stand the alert down.'
+            : pinPrompt.standDown
+              ? 'Your contacts have been alerted. Choose a cancel PIN to stand the alert down; every later alert will need it too.'
+              : PIN_PROMPT_TEXT[pinPrompt.kind].subtitle
+        }
+        onSubmit={submitPin}
+        onClose={() => setPinPrompt(null)}
+      />
 
       {/* Recording Selection Bottom Sheet (Modal) */}
       <Modal
@@ -559,6 +907,20 @@ export default function SOSScreen() {
                 <ThemedText style={styles.optionLabel}>Video & Audio</ThemedText>
                 <ThemedText style={styles.optionSub}>Full evidence capture</ThemedText>
               </TouchableOpacity>
+
+              <TouchableOpacity 
+                style={[styles.sheetOption, { backgroundColor: isDark ? '#2C2C2E' : '#F2F2F7' }]}
+                onPress={() => {
+                  setIsRecordSheetVisible(false);
+                  router.push('/vault');
+                }}
+              >
+                <View style={[styles.optionIconContainer, { backgroundColor: 'rgba(52, 199, 89, 0.1)' }]}>
+                  <IconSymbol name="lock.fill" size={24} color="#34c759" />
+                </View>
+                <ThemedText style={styles.optionLabel}>Evidence Vault</ThemedText>
+                <ThemedText style={styles.optionSub}>Encrypted captures</ThemedText>
+              </TouchableOpacity>
             </View>
 
             <TouchableOpacity 
@@ -582,7 +944,14 @@ export default function SOSScreen() {
           <ThemedView style={[styles.bottomSheet, { backgroundColor: isDark ? '#1C1C1E' : '#FFF', height: 600, paddingTop: 10 }]}>
             <View style={styles.sheetHeader}>
               <View style={styles.sheetHandle} />
-              <ThemedText style={styles.sheetTitle}>Safewalk Active</ThemedText>
+              <ThemedText style={styles.sheetTitle}>
+                {safewalk?.destination ? `Walking to ${safewalk.destination.name}` : 'Safewalk Active'}
+              </ThemedText>
+              {safewalk?.expectedArrivalAt && (
+                <ThemedText style={styles.safewalkEta}>
+                  Expected by {new Date(safewalk.expectedArrivalAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </ThemedText>
+              )}
             </View>
             
             <View style={styles.timerContainer}>
@@ -594,16 +963,22 @@ export default function SOSScreen() {
 
             <View style={styles.safewalkInfo}>
               <IconSymbol name="checkmark.shield.fill" size={20} color="#34c759" />
-              <ThemedText style={styles.safewalkStatus}>Contacts have been notified of your walk.</ThemedText>
+              <ThemedText style={styles.safewalkStatus}>
+                {safewalk?.destination
+                  ? 'Your contacts are alerted only if you have not arrived in time.'
+                  : 'Your contacts are alerted only if you do not check in in time.'}
+              </ThemedText>
             </View>
 
             <TouchableOpacity 
               style={[styles.safewalkButton, { backgroundColor: '#34c759' }]}
               onPress={() => {
-                setIsSafewalkActive(false);
                 setIsSafewalkVisible(false);
                 Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-                Alert.alert('Arrived Safely', 'Your contacts have been notified that you reached your destination.');
+                arriveSafewalk('manual').then(
+                  () => Alert.alert('Arrived Safely', 'Your Safewalk has ended.'),
+                  () => Alert.alert('Arrival not sent', 'Your Safewalk has ended, but your contacts could not be told you arrived.')
+                );
               }}
             >
               <ThemedText style={styles.safewalkButtonText}>I HAVE ARRIVED</ThemedText>
@@ -618,6 +993,14 @@ export default function SOSScreen() {
           </ThemedView>
         </View>
       </Modal>
+
+      <DestinationPicker
+        visible={isDestinationPickerVisible}
+        isDark={isDark}
+        currentLocation={location}
+        onClose={() => setIsDestinationPickerVisible(false)}
+        onSelect={startDestinationWalk}
+      />
     </ThemedView>
   );
 }
@@ -775,6 +1158,35 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 40,
   },
+  dispatchPanel: {
+    width: width - 48,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 20,
+    gap: 8,
+  },
+  dispatchTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  dispatchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dispatchName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  dispatchStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    opacity: 0.7,
+  },
+  escalationContainer: {
+    width: width - 48,
+  },
   section: {
     paddingHorizontal: 24,
     marginTop: 24,
@@ -785,11 +1197,62 @@ const styles = StyleSheet.create({
     alignItems: 'flex-end',
     marginBottom: 16,
   },
+  sectionLinks: {
+    flexDirection: 'row',
+    gap: 16,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '700',
     marginBottom: 16,
   },
+  safeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 24,
+    backgroundColor: '#34c759',
+  },
+  safeButtonText: {
+    color: '#FFF',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  cancelSettings: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  cancelSettingsBreak: {
+    width: '100%',
+    height: 4,
+  },
+  cancelSettingsText: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  cancelSettingsLink: {
+    color: '#ff3b30',
+    opacity: 1,
+    fontWeight: '600',
+  },
+  regionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  regionText: {
+    fontSize: 13,
+    opacity: 0.5,
+  },
   editLink: {
     fontSize: 14,
     color: '#ff3b30',
@@ -893,27 +1356,6 @@ const styles = StyleSheet.create({
     height: 40,
   },
   // Modal Styles
-  modalContainer: {
-    flex: 1,
-    paddingTop: 20,
-  },
-  modalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-    paddingVertical: 15,
-    borderBottomWidth: 1,
-    borderBottomColor: 'rgba(0,0,0,0.05)',
-  },
-  modalTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-  },
-  closeText: {
-    color: '#ff3b30',
-    fontWeight: '600',
-  },
   timerContainer: {
     alignItems: 'center',
     marginVertical: 25,
@@ -951,6 +1393,11 @@ const styles = StyleSheet.create({
     padding: 12,
     borderRadius: 16,
   },
+  safewalkEta: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 4,
+  },
   safewalkStatus: {
     fontSize: 14,
     fontWeight: '500',
@@ -972,49 +1419,6 @@ const styles = StyleSheet.create({
     fontWeight: '800',
     letterSpacing: 1,
   },
-  searchBar: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    margin: 15,
-    paddingHorizontal: 15,
-    height: 44,
-    borderRadius: 12,
-  },
-  searchInput: {
-    flex: 1,
-    marginLeft: 10,
-    fontSize: 16,
-  },
-  pickerItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-    borderBottomColor: 'rgba(0,0,0,0.02)',
-  },
-  pickerIcon: {
-    width: 44,
-    height: 44,
-    borderRadius: 22,
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginRight: 15,
-  },
-  pickerInitial: {
-    fontSize: 18,
-    fontWeight: '700',
-    opacity: 0.5,
-  },
-  pickerName: {
-    fontSize: 16,
-    fontWeight: '600',
-  },
-  pickerPhone: {
-    fontSize: 13,
-    opacity: 0.5,
-    marginTop: 2,
-  },
   // Bottom Sheet Styles
   overlay: {
     flex: 1,
@@ -0,0 +1,13 @@
+import { receiveLink } from '@/lib/deep-links';
+
+/**
+ * Action links have no screen of their own: they are queued for the SOS tab
+ * to confirm. Every other path routes as usual.
+ */
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    return receiveLink(path, 'link') ? '/sos' : path;
+  } catch {
+    return path;
+  }
+}
@@ -1,9 +1,37 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { Stack } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+import { router, Stack } from 'expo-router';
+import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect, useState } from 'react';
 import 'react-native-reanimated';
 
+import { FakeCallScreen } from '@/components/fake-call-screen';
+import { SosCountdown } from '@/components/sos-countdown';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useStore } from '@/hooks/use-store';
+import { outboxStore } from '@/lib/alerts/outbox';
+import { contactsStore } from '@/lib/contacts';
+import { pendingLinkStore } from '@/lib/deep-links';
+import { evidenceStore } from '@/lib/evidence';
+import { callersStore } from '@/lib/fake-call';
+import { historyStore } from '@/lib/history';
+import { incidentStore } from '@/lib/incident';
+import { loadPins } from '@/lib/pin';
+import { placesStore } from '@/lib/places';
+import { regionStore } from '@/lib/region';
+import { isSafewalkNotification, safewalkStore } from '@/lib/safewalk';
+import '@/lib/safewalk-destination';
+import '@/lib/safewalk-escalation';
+import { settingsStore } from '@/lib/settings';
+import { hydrateStores } from '@/lib/storage';
+import '@/lib/triggers/hands-free';
+import { uploadStore } from '@/lib/uploads';
+import { manifestStore } from '@/lib/vault';
+
+// Keep the splash screen up until saved contacts and settings are loaded,
+// so the SOS button never fires against the defaults.
+SplashScreen.preventAutoHideAsync();
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -11,13 +39,62 @@ export const unstable_settings = {
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  const [isHydrated, setIsHydrated] = useState(false);
+  const pendingLink = useStore(pendingLinkStore);
+  const notificationResponse = Notifications.useLastNotificationResponse();
+
+  useEffect(() => {
+    Promise.all([
+      hydrateStores([
+        contactsStore,
+        settingsStore,
+        safewalkStore,
+        placesStore,
+        evidenceStore,
+        manifestStore,
+        uploadStore,
+        callersStore,
+        regionStore,
+        historyStore,
+        outboxStore,
+        incidentStore,
+      ]),
+      loadPins(),
+    ])
+      .catch((error) => console.warn('Loading saved data failed:', error))
+      .finally(() => {
+        setIsHydrated(true);
+        SplashScreen.hideAsync();
+      });
+  }, []);
+
+  // Quick actions arrive without a route; the SOS tab confirms every pending link.
+  useEffect(() => {
+    if (isHydrated && pendingLink) router.navigate('/sos');
+  }, [isHydrated, pendingLink]);
+
+  // A tapped Safewalk notification opens the tab that asks for the check-in.
+  useEffect(() => {
+    if (isHydrated && notificationResponse && isSafewalkNotification(notificationResponse.notification)) {
+      router.navigate('/sos');
+    }
+  }, [isHydrated, notificationResponse]);
+
+  if (!isHydrated) {
+    return null;
+  }
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        <Stack.Screen name="vault" options={{ title: 'Evidence Vault' }} />
+        <Stack.Screen name="history/index" options={{ title: 'Incident History' }} />
+        <Stack.Screen name="history/[id]" options={{ title: 'Incident' }} />
       </Stack>
+      <SosCountdown />
+      <FakeCallScreen />
       <StatusBar style="auto" />
     </ThemeProvider>
   );
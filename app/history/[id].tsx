@@ -0,0 +1,250 @@
+import * as Linking from 'expo-linking';
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import { useEffect } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { LockedScreen } from '@/components/locked-screen';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { usePersistedStore } from '@/hooks/use-persisted-store';
+import { useStore } from '@/hooks/use-store';
+import type { DeliveryStatus } from '@/lib/alerts/types';
+import { appLockStore, unlockApp } from '@/lib/app-lock';
+import { evidenceStore } from '@/lib/evidence';
+import { evidenceFor, historyStore, isListedEntry } from '@/lib/history';
+import { HISTORY_TITLES, promptHistoryExport } from '@/lib/history-export';
+import { nativeMapLink } from '@/lib/location-links';
+import type { Breadcrumb } from '@/lib/tracking';
+
+const STATUS_COLORS: Record<DeliveryStatus, string> = {
+  pending: '#ff9500',
+  sent: '#34c759',
+  unknown: '#34c759',
+  queued: '#ff9500',
+  cancelled: '#8e8e93',
+  failed: '#ff3b30',
+};
+
+const time = (at: number) => new Date(at).toLocaleTimeString();
+
+export default function HistoryDetailScreen() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { unlocked } = useStore(appLockStore);
+  const [history] = usePersistedStore(historyStore);
+  const [evidence] = usePersistedStore(evidenceStore);
+  const entry = history.find((item) => item.id === id);
+
+  useEffect(() => {
+    unlockApp('Unlock your incident history');
+  }, []);
+
+  if (!unlocked) {
+    return <LockedScreen message="Your incident history is locked." reason="Unlock your incident history" />;
+  }
+
+  if (!entry || !isListedEntry(entry)) {
+    return (
+      <ThemedView style={styles.missing}>
+        <ThemedText style={styles.emptyText}>This entry no longer exists.</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const items = evidenceFor(entry, evidence);
+  const cardColor = isDark ? '#1C1C1E' : '#F2F2F7';
+  const openTrailPoint = (crumb: Breadcrumb, label: string) => Linking.openURL(nativeMapLink(crumb, label));
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: HISTORY_TITLES[entry.kind] }} />
+      <ScrollView contentContainerStyle={styles.scroll}>
+        <View style={[styles.card, { backgroundColor: cardColor }]}>
+          <ThemedText style={styles.heading}>{new Date(entry.startedAt).toLocaleString()}</ThemedText>
+          <ThemedText style={styles.detail}>
+            {entry.endedAt === null
+              ? 'In progress'
+              : `Ended ${new Date(entry.endedAt).toLocaleString()} · ${entry.outcome ?? 'ended'}`}
+          </ThemedText>
+          {entry.underDuress && <ThemedText style={styles.duress}>Cancelled under duress</ThemedText>}
+        </View>
+
+        <ThemedText style={styles.sectionTitle}>Timeline</ThemedText>
+        <View style={[styles.card, { backgroundColor: cardColor }]}>
+          {entry.events.length === 0 && <ThemedText style={styles.detail}>Nothing recorded.</ThemedText>}
+          {entry.events.map((event, i) => (
+            <View key={i} style={styles.eventRow}>
+              <ThemedText style={styles.eventTime}>{time(event.at)}</ThemedText>
+              <ThemedText style={styles.eventText}>{event.message}</ThemedText>
+            </View>
+          ))}
+        </View>
+
+        {entry.dispatches.length > 0 && (
+          <>
+            <ThemedText style={styles.sectionTitle}>Messages</ThemedText>
+            {entry.dispatches.map((report) => (
+              <View key={report.id} style={[styles.card, { backgroundColor: cardColor }]}>
+                <ThemedText style={styles.detail}>Sent {time(report.startedAt)}</ThemedText>
+                {report.results.map((result) => (
+                  <View key={result.contactId} style={styles.recipientRow}>
+                    <View style={[styles.statusDot, { backgroundColor: STATUS_COLORS[result.status] }]} />
+                    <ThemedText style={styles.eventText}>
+                      {result.name} · {result.status}
+                      {result.transport ? ` via ${result.transport}` : ''}
+                    </ThemedText>
+                  </View>
+                ))}
+              </View>
+            ))}
+          </>
+        )}
+
+        {entry.trail.length > 0 && (
+          <>
+            <ThemedText style={styles.sectionTitle}>Location Trail</ThemedText>
+            <View style={[styles.card, { backgroundColor: cardColor }]}>
+              <ThemedText style={styles.detail}>{entry.trail.length} point(s) recorded</ThemedText>
+              <View style={styles.trailButtons}>
+                <TouchableOpacity style={styles.linkButton} onPress={() => openTrailPoint(entry.trail[0], 'First fix')}>
+                  <ThemedText style={styles.linkText}>First fix</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.linkButton}
+                  onPress={() => openTrailPoint(entry.trail[entry.trail.length - 1], 'Last fix')}
+                >
+                  <ThemedText style={styles.linkText}>Last fix</ThemedText>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </>
+        )}
+
+        {items.length > 0 && (
+          <>
+            <ThemedText style={styles.sectionTitle}>Evidence</ThemedText>
+            <TouchableOpacity
+              style={[styles.card, styles.evidenceCard, { backgroundColor: cardColor }]}
+              onPress={() => router.push('/vault')}
+            >
+              <ThemedText style={styles.eventText}>
+                {items.length} item(s) · {[...new Set(items.map((item) => item.kind))].join(', ')}
+              </ThemedText>
+              <IconSymbol name="chevron.right" size={16} color="#8e8e93" />
+            </TouchableOpacity>
+          </>
+        )}
+
+        <TouchableOpacity style={styles.exportButton} onPress={() => promptHistoryExport([entry], evidence)}>
+          <IconSymbol name="square.and.arrow.up" size={18} color="#FFF" />
+          <ThemedText style={styles.exportText}>Export</ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  missing: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    opacity: 0.5,
+  },
+  scroll: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+    marginBottom: 10,
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  detail: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  duress: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ff9500',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    opacity: 0.6,
+    textTransform: 'uppercase',
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  eventTime: {
+    fontSize: 13,
+    opacity: 0.5,
+    fontVariant: ['tabular-nums'],
+    width: 84,
+  },
+  eventText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  recipientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  trailButtons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  linkButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0,122,255,0.12)',
+  },
+  linkText: {
+    color: '#007aff',
+    fontWeight: '600',
+  },
+  evidenceCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  exportButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    height: 54,
+    borderRadius: 16,
+    backgroundColor: '#ff3b30',
+    marginTop: 20,
+  },
+  exportText: {
+    color: '#FFF',
+    fontSize: 17,
+    fontWeight: '700',
+  },
+});
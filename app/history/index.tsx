@@ -0,0 +1,133 @@
+import { router } from 'expo-router';
+import { useEffect, useMemo } from 'react';
+import { FlatList, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { LockedScreen } from '@/components/locked-screen';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { usePersistedStore } from '@/hooks/use-persisted-store';
+import { useStore } from '@/hooks/use-store';
+import { appLockStore, unlockApp } from '@/lib/app-lock';
+import { evidenceStore } from '@/lib/evidence';
+import { historyStore, isListedEntry, type HistoryKind } from '@/lib/history';
+import { HISTORY_TITLES, promptHistoryExport } from '@/lib/history-export';
+
+const KIND_STYLES: Record<HistoryKind, { icon: IconSymbolName; color: string }> = {
+  sos: { icon: 'exclamationmark.triangle.fill', color: '#ff3b30' },
+  safewalk: { icon: 'figure.walk', color: '#ff9500' },
+  recording: { icon: 'mic.fill', color: '#5856d6' },
+};
+
+export default function HistoryScreen() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { unlocked } = useStore(appLockStore);
+  const [history] = usePersistedStore(historyStore);
+  const [evidence] = usePersistedStore(evidenceStore);
+  const entries = useMemo(() => history.filter(isListedEntry), [history]);
+
+  useEffect(() => {
+    unlockApp('Unlock your incident history');
+  }, []);
+
+  if (!unlocked) {
+    return <LockedScreen message="Your incident history is locked." reason="Unlock your incident history" />;
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={entries}
+        keyExtractor={(entry) => entry.id}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          entries.length > 0 ? (
+            <TouchableOpacity style={styles.exportAll} onPress={() => promptHistoryExport(entries, evidence)}>
+              <IconSymbol name="square.and.arrow.up" size={16} color="#ff3b30" />
+              <ThemedText style={styles.exportText}>Export all</ThemedText>
+            </TouchableOpacity>
+          ) : null
+        }
+        ListEmptyComponent={
+          <ThemedText style={styles.emptyText}>
+            SOS alerts, Safewalks and recordings will be listed here.
+          </ThemedText>
+        }
+        renderItem={({ item }) => {
+          const display = KIND_STYLES[item.kind];
+          return (
+            <TouchableOpacity
+              style={[styles.row, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}
+              onPress={() => router.push(`/history/${item.id}`)}
+            >
+              <View style={[styles.iconCircle, { backgroundColor: `${display.color}1A` }]}>
+                <IconSymbol name={display.icon} size={20} color={display.color} />
+              </View>
+              <View style={styles.rowInfo}>
+                <ThemedText style={styles.rowTitle}>{HISTORY_TITLES[item.kind]}</ThemedText>
+                <ThemedText style={styles.rowDetail}>
+                  {new Date(item.startedAt).toLocaleString()} · {item.endedAt === null ? 'In progress' : item.outcome}
+                </ThemedText>
+              </View>
+              <IconSymbol name="chevron.right" size={16} color="#8e8e93" />
+            </TouchableOpacity>
+          );
+        }}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  list: {
+    padding: 20,
+    gap: 10,
+  },
+  exportAll: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 6,
+    marginBottom: 6,
+  },
+  exportText: {
+    color: '#ff3b30',
+    fontWeight: '600',
+  },
+  emptyText: {
+    opacity: 0.5,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 16,
+  },
+  iconCircle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  rowDetail: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,290 @@
+import { createAudioPlayer, type AudioPlayer } from 'expo-audio';
+import { Image } from 'expo-image';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Modal, Pressable, SectionList, Share, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { LockedScreen } from '@/components/locked-screen';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { usePersistedStore } from '@/hooks/use-persisted-store';
+import { useStore } from '@/hooks/use-store';
+import { appLockStore, unlockApp } from '@/lib/app-lock';
+import { evidenceStore, type EvidenceItem, type EvidenceKind } from '@/lib/evidence';
+import { settingsStore } from '@/lib/settings';
+import { retryUploads, uploadStore, type UploadJob, type UploadStatus } from '@/lib/uploads';
+import { UNFILED_CHAIN, chainIdOf, closeEvidence, openEvidence, verifyChain, type VerificationResult } from '@/lib/vault';
+
+const KIND_ICONS: Record<EvidenceKind, IconSymbolName> = {
+  audio: 'mic.fill',
+  video: 'video.fill',
+  photo: 'camera.fill',
+};
+
+const UPLOAD_LABELS: Record<UploadStatus, string> = {
+  queued: 'Waiting to upload',
+  uploading: 'Uploading',
+  retrying: 'Upload retrying',
+  done: 'Uploaded',
+  failed: 'Upload failed',
+};
+
+function describeUpload(job: UploadJob | undefined) {
+  if (!job) return '';
+  if (job.status === 'uploading' && job.size) return ` · Uploading ${Math.floor((job.offset / job.size) * 100)}%`;
+  return ` · ${UPLOAD_LABELS[job.status]}`;
+}
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return '';
+  const seconds = Math.round(ms / 1000);
+  return ` · ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function VaultScreen() {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { unlocked } = useStore(appLockStore);
+  const [evidence] = usePersistedStore(evidenceStore);
+  const [uploads] = usePersistedStore(uploadStore);
+  const [settings] = usePersistedStore(settingsStore);
+  const [endpoint, setEndpoint] = useState(settings.evidenceUploadUrl ?? '');
+  const [results, setResults] = useState<Record<string, VerificationResult | 'checking'>>({});
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const player = useRef<AudioPlayer | null>(null);
+
+  useEffect(() => {
+    unlockApp('Unlock the evidence vault');
+    return () => {
+      player.current?.remove();
+      closeEvidence();
+    };
+  }, []);
+
+  const sections = useMemo(() => {
+    const chains = new Map<string, EvidenceItem[]>();
+    for (const item of evidence) {
+      const chainId = chainIdOf(item);
+      chains.set(chainId, [...(chains.get(chainId) ?? []), item]);
+    }
+    return [...chains.entries()]
+      .map(([chainId, data]) => ({ chainId, data: [...data].sort((a, b) => b.capturedAt - a.capturedAt) }))
+      .sort((a, b) => b.data[0].capturedAt - a.data[0].capturedAt);
+  }, [evidence]);
+
+  const jobs = useMemo(() => new Map(uploads.map((job) => [job.evidenceId, job])), [uploads]);
+  const hasStalledUploads = uploads.some((job) => job.status === 'failed' || job.status === 'retrying');
+
+  const saveEndpoint = () => {
+    const url = endpoint.trim();
+    if (url && !/^https?:\/\//.test(url)) {
+      Alert.alert('Invalid address', 'The upload address must start with http:// or https://.');
+      return;
+    }
+    settingsStore.setState((current) => ({ ...current, evidenceUploadUrl: url || null }));
+  };
+
+  const handleVerify = async (chainId: string) => {
+    setResults((current) => ({ ...current, [chainId]: 'checking' }));
+    const result = await verifyChain(chainId);
+    setResults((current) => ({ ...current, [chainId]: result }));
+    if (!result.ok) Alert.alert('Evidence has been tampered with', result.problems.join('\n'));
+  };
+
+  const handleOpen = async (item: EvidenceItem) => {
+    if (!item.seal) {
+      Alert.alert('Still sealing', 'This item is being encrypted. Try again in a moment.');
+      return;
+    }
+    try {
+      const uri = await openEvidence(item);
+      if (item.kind === 'photo') {
+        setPhotoUri(uri);
+      } else if (item.kind === 'audio') {
+        player.current?.remove();
+        player.current = createAudioPlayer(uri);
+        player.current.play();
+      } else {
+        await Share.share({ url: uri });
+      }
+    } catch {
+      Alert.alert('Cannot open evidence', 'This item could not be decrypted. Run a verification on its incident.');
+    }
+  };
+
+  if (!unlocked) {
+    return <LockedScreen message="The evidence vault is locked." reason="Unlock the evidence vault" />;
+  }
+
+  const renderHeader = ({ section }: { section: (typeof sections)[number] }) => {
+    const result = results[section.chainId];
+    const status =
+      result === undefined
+        ? 'Verify'
+        : result === 'checking'
+          ? 'Checking…'
+          : result.ok
+            ? 'Intact'
+            : 'Tampered';
+    const color = result && result !== 'checking' ? (result.ok ? '#34c759' : '#ff3b30') : '#007aff';
+    return (
+      <View style={[styles.sectionHeader, { backgroundColor: isDark ? '#000' : '#FFF' }]}>
+        <ThemedText style={styles.sectionTitle}>
+          {section.chainId === UNFILED_CHAIN
+            ? 'Not linked to an incident'
+            : `Incident · ${new Date(section.data.at(-1)!.capturedAt).toLocaleString()}`}
+        </ThemedText>
+        <TouchableOpacity disabled={result === 'checking'} onPress={() => handleVerify(section.chainId)}>
+          <ThemedText style={[styles.verifyText, { color }]}>{status}</ThemedText>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderItem = ({ item }: { item: EvidenceItem }) => (
+    <TouchableOpacity style={styles.item} onPress={() => handleOpen(item)}>
+      <View style={[styles.itemIcon, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}>
+        <IconSymbol name={KIND_ICONS[item.kind]} size={18} color="#5856d6" />
+      </View>
+      <View style={styles.itemInfo}>
+        <ThemedText style={styles.itemTitle}>
+          {new Date(item.capturedAt).toLocaleTimeString()}
+          {formatDuration(item.durationMs)}
+        </ThemedText>
+        <ThemedText style={styles.itemDetail}>
+          {item.seal ? 'Encrypted' : 'Sealing…'}
+          {describeUpload(jobs.get(item.id))}
+          {item.location ? ` · ${item.location.latitude.toFixed(4)}, ${item.location.longitude.toFixed(4)}` : ''}
+        </ThemedText>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id}
+        renderSectionHeader={renderHeader}
+        renderItem={renderItem}
+        stickySectionHeadersEnabled
+        ListHeaderComponent={
+          <View style={styles.uploadSettings}>
+            <ThemedText style={styles.uploadLabel}>Upload to safety endpoint</ThemedText>
+            <TextInput
+              placeholder="https://… (leave empty to keep evidence on this phone)"
+              placeholderTextColor="#888"
+              style={[
+                styles.input,
+                { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7', color: isDark ? '#FFF' : '#000' },
+              ]}
+              value={endpoint}
+              onChangeText={setEndpoint}
+              onEndEditing={saveEndpoint}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            {hasStalledUploads && (
+              <TouchableOpacity onPress={retryUploads}>
+                <ThemedText style={styles.retryText}>Retry uploads now</ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+        }
+        ListEmptyComponent={
+          <ThemedText style={styles.emptyText}>Recordings and photos you capture will be kept here, encrypted.</ThemedText>
+        }
+      />
+
+      <Modal visible={photoUri !== null} transparent animationType="fade" onRequestClose={() => setPhotoUri(null)}>
+        <Pressable style={styles.photoOverlay} onPress={() => setPhotoUri(null)}>
+          {photoUri && <Image source={{ uri: photoUri }} style={styles.photo} contentFit="contain" />}
+        </Pressable>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  uploadSettings: {
+    padding: 20,
+    gap: 8,
+  },
+  uploadLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    opacity: 0.6,
+  },
+  input: {
+    height: 44,
+    borderRadius: 12,
+    paddingHorizontal: 15,
+    fontSize: 15,
+  },
+  retryText: {
+    color: '#007aff',
+    fontWeight: '600',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    flex: 1,
+  },
+  verifyText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  itemIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 14,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  itemDetail: {
+    fontSize: 12,
+    opacity: 0.5,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.5,
+    padding: 20,
+    textAlign: 'center',
+  },
+  photoOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.9)',
+    justifyContent: 'center',
+  },
+  photo: {
+    width: '100%',
+    height: '80%',
+  },
+});
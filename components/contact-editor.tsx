@@ -0,0 +1,393 @@
+import * as Contacts from 'expo-contacts';
+import * as Haptics from 'expo-haptics';
+import { useEffect, useState } from 'react';
+import { Alert, Modal, ScrollView, StyleSheet, Switch, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol, type IconSymbolName } from '@/components/ui/icon-symbol';
+import {
+  ALL_ALERTS,
+  CONTACT_ALERTS,
+  CONTACT_GROUPS,
+  contactsStore,
+  removeContact,
+  saveContacts,
+  type ContactAlertKind,
+  type ContactGroup,
+  type EmergencyContact,
+} from '@/lib/contacts';
+import { createId } from '@/lib/id';
+import { canReceiveSms, formatPhone, parsePhone, samePhone, type ParsedPhone } from '@/lib/phone';
+import { currentRegion } from '@/lib/region';
+
+export type EditorTarget = { contact: EmergencyContact } | { picked: Contacts.ExistingContact };
+
+type Props = {
+  visible: boolean;
+  isDark: boolean;
+  target: EditorTarget | null;
+  onClose: () => void;
+};
+
+interface NumberOption {
+  label: string;
+  number: string;
+}
+
+const ICONS: IconSymbolName[] = ['person.fill', 'heart.fill', 'house.fill', 'briefcase.fill', 'star.fill', 'person.2.fill'];
+const RELATIONS = ['Parent', 'Partner', 'Sibling', 'Child', 'Friend', 'Colleague', 'Neighbour'];
+
+/** Address books often hold one number twice in different formats; each is offered once. */
+function numbersOf(contact: Contacts.Contact | undefined, region: string): NumberOption[] {
+  const options: NumberOption[] = [];
+  for (const entry of contact?.phoneNumbers ?? []) {
+    if (!entry.number || options.some((option) => samePhone(option.number, entry.number!, region))) continue;
+    options.push({ label: entry.label ?? '', number: entry.number });
+  }
+  return options;
+}
+
+export function ContactEditor({ visible, isDark, target, onClose }: Props) {
+  const existing = target && 'contact' in target ? target.contact : null;
+  const [name, setName] = useState('');
+  const [options, setOptions] = useState<NumberOption[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [relation, setRelation] = useState('');
+  const [icon, setIcon] = useState<string>(ICONS[0]);
+  const [group, setGroup] = useState<ContactGroup | null>(null);
+  const [alerts, setAlerts] = useState<ContactAlertKind[]>(ALL_ALERTS);
+
+  useEffect(() => {
+    if (!target) return;
+    const region = currentRegion();
+    if ('picked' in target) {
+      const picked = numbersOf(target.picked, region);
+      setName(target.picked.name);
+      setOptions(picked);
+      setSelected(picked.slice(0, 1).map((option) => option.number));
+      setRelation('');
+      setIcon(ICONS[0]);
+      setGroup(null);
+      setAlerts(ALL_ALERTS);
+      return;
+    }
+    const { contact } = target;
+    setName(contact.name);
+    setOptions([{ label: '', number: contact.phone }]);
+    setSelected([contact.phone]);
+    setRelation(contact.relation);
+    setIcon(contact.icon);
+    setGroup(contact.group);
+    setAlerts(contact.alerts);
+    if (!contact.deviceContactId) return;
+    // Offer the rest of the address book entry, if it is still there.
+    Contacts.getContactByIdAsync(contact.deviceContactId, [Contacts.Fields.PhoneNumbers])
+      .then((device) => {
+        const others = numbersOf(device, region).filter((option) => !samePhone(option.number, contact.phone, region));
+        if (others.length > 0) setOptions((current) => [...current, ...others]);
+      })
+      .catch(() => {});
+  }, [target]);
+
+  const toggleNumber = (number: string) =>
+    setSelected((current) => (current.includes(number) ? current.filter((n) => n !== number) : [...current, number]));
+
+  const toggleAlert = (kind: ContactAlertKind) =>
+    setAlerts((current) => (current.includes(kind) ? current.filter((k) => k !== kind) : [...current, kind]));
+
+  const save = () => {
+    const region = currentRegion();
+    const chosen = options.filter((option) => selected.includes(option.number));
+    if (!name.trim()) {
+      Alert.alert('Name required', 'Enter a name for this contact.');
+      return;
+    }
+    if (chosen.length === 0) {
+      Alert.alert('Choose a number', 'Pick at least one number to use.');
+      return;
+    }
+    const parsed: (ParsedPhone & { label: string })[] = [];
+    for (const option of chosen) {
+      // A number saved before validation existed can still be kept as it is.
+      const phone =
+        parsePhone(option.number, region) ??
+        (option.number === existing?.phone ? { e164: option.number, lineType: 'other' as const } : null);
+      if (!phone) {
+        Alert.alert(
+          'Invalid number',
+          `${option.number} is not a complete phone number. Include the country code if it is from abroad.`
+        );
+        return;
+      }
+      // Two address book entries for the same number, e.g. with and without the country code.
+      if (parsed.some((other) => other.e164 === phone.e164)) continue;
+      parsed.push({ ...phone, label: option.label });
+    }
+    const taken = contactsStore
+      .getState()
+      .find((contact) => contact.id !== existing?.id && parsed.some((phone) => phone.e164 === contact.phone));
+    if (taken) {
+      Alert.alert('Already added', `${formatPhone(taken.phone)} is already in your list as ${taken.name}.`);
+      return;
+    }
+
+    const deviceContactId = existing ? existing.deviceContactId : target && 'picked' in target ? target.picked.id : null;
+    const commit = () => {
+      saveContacts(
+        parsed.map((phone, i) => ({
+          id: i === 0 && existing ? existing.id : createId('contact'),
+          name: parsed.length > 1 && phone.label ? `${name.trim()} (${phone.label})` : name.trim(),
+          phone: phone.e164,
+          icon,
+          relation: relation.trim() || (group ? CONTACT_GROUPS[group] : 'Contact'),
+          group,
+          // A landline keeps only what works over a voice call.
+          alerts: canReceiveSms(phone) ? alerts : alerts.filter((kind) => kind === 'calls'),
+          deviceContactId,
+        }))
+      );
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    };
+
+    const landlines = parsed.filter((phone) => !canReceiveSms(phone));
+    if (landlines.length === 0) {
+      commit();
+      return;
+    }
+    Alert.alert(
+      'Landline number',
+      `${landlines.map((phone) => formatPhone(phone.e164)).join(', ')} cannot receive text alerts, so it will only be called during escalation.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Add Anyway', onPress: commit },
+      ]
+    );
+  };
+
+  const confirmRemove = () => {
+    if (!existing) return;
+    Alert.alert(`Remove ${existing.name}?`, 'They will no longer be alerted or called.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => {
+          removeContact(existing.id);
+          onClose();
+        },
+      },
+    ]);
+  };
+
+  const chipColor = isDark ? '#2C2C2E' : '#E5E5EA';
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7', color: isDark ? '#FFF' : '#000' },
+  ];
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+          </TouchableOpacity>
+          <ThemedText style={styles.title}>{existing ? 'Edit Contact' : 'New Contact'}</ThemedText>
+          <TouchableOpacity onPress={save}>
+            <ThemedText style={styles.saveText}>Save</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.scroll} keyboardShouldPersistTaps="handled">
+          <ThemedText style={styles.sectionTitle}>Name</ThemedText>
+          <TextInput style={inputStyle} value={name} onChangeText={setName} placeholder="Name" placeholderTextColor="#888" />
+
+          <ThemedText style={styles.sectionTitle}>Numbers</ThemedText>
+          {options.length === 0 && <ThemedText style={styles.hint}>This contact has no phone numbers.</ThemedText>}
+          {options.map((option) => (
+            <TouchableOpacity key={option.number} style={styles.optionRow} onPress={() => toggleNumber(option.number)}>
+              <IconSymbol
+                name={selected.includes(option.number) ? 'checkmark.circle.fill' : 'circle'}
+                size={22}
+                color={selected.includes(option.number) ? '#ff3b30' : '#8e8e93'}
+              />
+              <View>
+                <ThemedText style={styles.optionNumber}>{formatPhone(option.number)}</ThemedText>
+                {option.label ? <ThemedText style={styles.hint}>{option.label}</ThemedText> : null}
+              </View>
+            </TouchableOpacity>
+          ))}
+          {options.length > 1 && (
+            <ThemedText style={styles.hint}>Each extra number is added as its own entry, called in turn.</ThemedText>
+          )}
+
+          <ThemedText style={styles.sectionTitle}>Relation</ThemedText>
+          <TextInput
+            style={inputStyle}
+            value={relation}
+            onChangeText={setRelation}
+            placeholder="e.g. Sister"
+            placeholderTextColor="#888"
+          />
+          <View style={styles.chips}>
+            {RELATIONS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, { backgroundColor: relation === option ? '#ff3b30' : chipColor }]}
+                onPress={() => setRelation(option)}
+              >
+                <ThemedText style={[styles.chipText, relation === option && { color: '#FFF' }]}>{option}</ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ThemedText style={styles.sectionTitle}>Icon</ThemedText>
+          <View style={styles.chips}>
+            {ICONS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.iconChoice, { backgroundColor: icon === option ? '#ff3b30' : chipColor }]}
+                onPress={() => setIcon(option)}
+              >
+                <IconSymbol name={option} size={20} color={icon === option ? '#FFF' : '#ff3b30'} />
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ThemedText style={styles.sectionTitle}>Group</ThemedText>
+          <View style={styles.chips}>
+            {([null, ...Object.keys(CONTACT_GROUPS)] as (ContactGroup | null)[]).map((option) => (
+              <TouchableOpacity
+                key={option ?? 'none'}
+                style={[styles.chip, { backgroundColor: group === option ? '#ff3b30' : chipColor }]}
+                onPress={() => setGroup(option)}
+              >
+                <ThemedText style={[styles.chipText, group === option && { color: '#FFF' }]}>
+                  {option ? CONTACT_GROUPS[option] : 'None'}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ThemedText style={styles.sectionTitle}>Receives</ThemedText>
+          {ALL_ALERTS.map((kind) => (
+            <View key={kind} style={styles.switchRow}>
+              <ThemedText style={styles.switchLabel}>{CONTACT_ALERTS[kind]}</ThemedText>
+              <Switch
+                value={alerts.includes(kind)}
+                onValueChange={() => toggleAlert(kind)}
+                trackColor={{ true: '#ff3b30', false: chipColor }}
+              />
+            </View>
+          ))}
+
+          {existing && (
+            <TouchableOpacity style={styles.removeButton} onPress={confirmRemove}>
+              <ThemedText style={styles.removeText}>Remove Contact</ThemedText>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  cancelText: {
+    color: '#8e8e93',
+    fontWeight: '600',
+  },
+  saveText: {
+    color: '#ff3b30',
+    fontWeight: '700',
+  },
+  scroll: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    opacity: 0.6,
+    textTransform: 'uppercase',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  input: {
+    height: 44,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    fontSize: 16,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  optionNumber: {
+    fontSize: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  iconChoice: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  switchLabel: {
+    fontSize: 16,
+  },
+  removeButton: {
+    marginTop: 30,
+    height: 50,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255,59,48,0.12)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeText: {
+    color: '#ff3b30',
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,194 @@
+import * as Haptics from 'expo-haptics';
+import { useEffect } from 'react';
+import { Modal, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, { runOnJS, useAnimatedStyle, useSharedValue, withTiming, type SharedValue } from 'react-native-reanimated';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { usePersistedStore } from '@/hooks/use-persisted-store';
+import { CONTACT_GROUPS, contactsStore, isEmergencyService, moveContact, type EmergencyContact } from '@/lib/contacts';
+import { formatPhone } from '@/lib/phone';
+
+type Props = {
+  visible: boolean;
+  isDark: boolean;
+  onClose: () => void;
+};
+
+const ROW_HEIGHT = 68;
+
+type RowProps = {
+  contact: EmergencyContact;
+  index: number;
+  count: number;
+  isDark: boolean;
+  dragging: SharedValue<number>;
+  offset: SharedValue<number>;
+  onDrop: (from: number, to: number) => void;
+};
+
+function OrderRow({ contact, index, count, isDark, dragging, offset, onDrop }: RowProps) {
+  const pan = Gesture.Pan()
+    .onStart(() => {
+      dragging.value = index;
+      offset.value = 0;
+    })
+    .onUpdate((event) => {
+      offset.value = Math.min(Math.max(event.translationY, -index * ROW_HEIGHT), (count - 1 - index) * ROW_HEIGHT);
+    })
+    .onEnd(() => {
+      runOnJS(onDrop)(index, index + Math.round(offset.value / ROW_HEIGHT));
+    });
+
+  // The dragged row follows the finger; the rows it passes slide over to make room.
+  const animatedStyle = useAnimatedStyle(() => {
+    if (dragging.value === index) return { transform: [{ translateY: offset.value }], zIndex: 1, opacity: 0.9 };
+    if (dragging.value < 0) return { transform: [{ translateY: 0 }], zIndex: 0, opacity: 1 };
+    const target = dragging.value + Math.round(offset.value / ROW_HEIGHT);
+    let shift = 0;
+    if (dragging.value < index && index <= target) shift = -ROW_HEIGHT;
+    if (target <= index && index < dragging.value) shift = ROW_HEIGHT;
+    return { transform: [{ translateY: withTiming(shift, { duration: 120 }) }], zIndex: 0, opacity: 1 };
+  });
+
+  return (
+    <Animated.View style={[styles.row, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }, animatedStyle]}>
+      <ThemedText style={styles.rank}>{index + 1}</ThemedText>
+      <View style={styles.rowInfo}>
+        <ThemedText style={styles.rowTitle} numberOfLines={1}>
+          {contact.name}
+        </ThemedText>
+        <ThemedText style={styles.rowDetail} numberOfLines={1}>
+          {[contact.group && CONTACT_GROUPS[contact.group], contact.relation, formatPhone(contact.phone)]
+            .filter(Boolean)
+            .join(' · ')}
+        </ThemedText>
+      </View>
+      <GestureDetector gesture={pan}>
+        <View style={styles.handle} hitSlop={10}>
+          <IconSymbol name="line.3.horizontal" size={22} color="#8e8e93" />
+        </View>
+      </GestureDetector>
+    </Animated.View>
+  );
+}
+
+/** Drag personal contacts into the order they are called and listed in. */
+export function ContactOrderSheet({ visible, isDark, onClose }: Props) {
+  const [contacts] = usePersistedStore(contactsStore);
+  const personal = contacts.filter((contact) => !isEmergencyService(contact));
+  const dragging = useSharedValue(-1);
+  const offset = useSharedValue(0);
+
+  // Rows hold their dropped position until the reordered list renders.
+  useEffect(() => {
+    dragging.value = -1;
+    offset.value = 0;
+  }, [contacts, dragging, offset]);
+
+  const drop = (from: number, to: number) => {
+    if (from === to) {
+      dragging.value = -1;
+      offset.value = 0;
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    moveContact(from, to);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <GestureHandlerRootView style={styles.root}>
+        <ThemedView style={styles.container}>
+          <View style={styles.header}>
+            <ThemedText style={styles.title}>Priority Order</ThemedText>
+            <TouchableOpacity onPress={onClose}>
+              <ThemedText style={styles.closeText}>Done</ThemedText>
+            </TouchableOpacity>
+          </View>
+          <ThemedText style={styles.hint}>
+            Drag the handles to reorder. Escalation calls go down this list before emergency services.
+          </ThemedText>
+          {personal.length === 0 && <ThemedText style={styles.hint}>Add contacts to set their order.</ThemedText>}
+          <View style={styles.list}>
+            {personal.map((contact, index) => (
+              <OrderRow
+                key={contact.id}
+                contact={contact}
+                index={index}
+                count={personal.length}
+                isDark={isDark}
+                dragging={dragging}
+                offset={offset}
+                onDrop={drop}
+              />
+            ))}
+          </View>
+        </ThemedView>
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  closeText: {
+    color: '#ff3b30',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginBottom: 16,
+  },
+  list: {
+    position: 'relative',
+  },
+  row: {
+    height: ROW_HEIGHT - 8,
+    marginBottom: 8,
+    borderRadius: 14,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    gap: 12,
+  },
+  rank: {
+    width: 20,
+    fontWeight: '700',
+    opacity: 0.5,
+    fontVariant: ['tabular-nums'],
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  rowDetail: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  handle: {
+    padding: 6,
+  },
+});
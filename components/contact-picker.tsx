@@ -0,0 +1,364 @@
+import type * as Contacts from 'expo-contacts';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Modal, SectionList, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import {
+  loadContactsPage,
+  searchDeviceContacts,
+  sectionEntries,
+  type PickerEntry,
+  type PickerSection,
+} from '@/lib/device-contacts';
+import { currentRegion } from '@/lib/region';
+
+type Props = {
+  visible: boolean;
+  isDark: boolean;
+  onClose: () => void;
+  onSelect: (contact: Contacts.ExistingContact) => void;
+};
+
+const ROW_HEIGHT = 64;
+const HEADER_HEIGHT = 28;
+/** Typing pauses this long before the address book is searched again. */
+const SEARCH_DELAY_MS = 250;
+
+/** Fixed row and header heights let the jump index scroll straight to any section. */
+function buildLayouts(sections: PickerSection[], headerHeight: number) {
+  const layouts: { length: number; offset: number }[] = [];
+  let offset = 0;
+  for (const section of sections) {
+    layouts.push({ length: headerHeight, offset });
+    offset += headerHeight;
+    for (let i = 0; i < section.data.length; i++) {
+      layouts.push({ length: ROW_HEIGHT, offset });
+      offset += ROW_HEIGHT;
+    }
+    // SectionList counts an (empty) footer after every section.
+    layouts.push({ length: 0, offset });
+  }
+  return layouts;
+}
+
+const errorText = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Browsing reads the address book a page at a time as the list is scrolled;
+ * searching walks it page by page too, so a large book is never held whole.
+ */
+export function ContactPicker({ visible, isDark, onClose, onSelect }: Props) {
+  const [entries, setEntries] = useState<PickerEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<PickerEntry[] | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [isSearchingBook, setIsSearchingBook] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  const listRef = useRef<SectionList<PickerEntry, PickerSection>>(null);
+  const loadingRef = useRef(false);
+  const nextOffsetRef = useRef<number | null>(0);
+  // Bumped on every reopen so pages still in flight from before are dropped.
+  const sessionRef = useRef(0);
+
+  const loadMore = useCallback(() => {
+    const offset = nextOffsetRef.current;
+    if (offset === null || loadingRef.current) return;
+    const session = sessionRef.current;
+    loadingRef.current = true;
+    setIsLoading(true);
+    setLoadError(null);
+    loadContactsPage(offset, currentRegion())
+      .then((page) => {
+        if (session !== sessionRef.current) return;
+        nextOffsetRef.current = page.nextOffset;
+        setEntries((current) => [...current, ...page.entries]);
+      })
+      .catch((error) => {
+        if (session === sessionRef.current) setLoadError(errorText(error));
+      })
+      .finally(() => {
+        if (session !== sessionRef.current) return;
+        loadingRef.current = false;
+        setIsLoading(false);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+    sessionRef.current += 1;
+    loadingRef.current = false;
+    nextOffsetRef.current = 0;
+    setEntries([]);
+    setQuery('');
+    setResults(null);
+    loadMore();
+  }, [visible, loadMore]);
+
+  const isSearching = query.trim().length > 0;
+
+  useEffect(() => {
+    if (!visible || !isSearching) return;
+    let cancelled = false;
+    setResults(null);
+    setSearchError(null);
+    setIsSearchingBook(true);
+    const timer = setTimeout(() => {
+      searchDeviceContacts(query, currentRegion(), () => cancelled)
+        .then((found) => {
+          if (found) setResults(found);
+        })
+        .catch((error) => {
+          if (!cancelled) setSearchError(errorText(error));
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearchingBook(false);
+        });
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [visible, isSearching, query, attempt]);
+
+  const showSections = !isSearching;
+  const sections = useMemo(() => {
+    if (isSearching) return results && results.length > 0 ? [{ title: 'Results', data: results }] : [];
+    return sectionEntries(entries);
+  }, [entries, results, isSearching]);
+  const layouts = useMemo(() => buildLayouts(sections, showSections ? HEADER_HEIGHT : 0), [sections, showSections]);
+  const isBusy = isSearching ? isSearchingBook : isLoading;
+  const error = isSearching ? searchError : loadError;
+
+  const retry = () => (isSearching ? setAttempt((count) => count + 1) : loadMore());
+
+  const failedTo = isSearching
+    ? 'Could not search your contacts'
+    : entries.length > 0
+      ? 'Could not load the rest of your contacts'
+      : 'Could not read your contacts';
+  const errorNotice = error ? (
+    <View style={styles.errorNotice}>
+      <ThemedText style={styles.errorText}>
+        {failedTo}: {error}
+      </ThemedText>
+      <TouchableOpacity onPress={retry}>
+        <ThemedText style={styles.retryText}>Try Again</ThemedText>
+      </TouchableOpacity>
+    </View>
+  ) : null;
+
+  const jumpTo = (sectionIndex: number) =>
+    listRef.current?.scrollToLocation({ sectionIndex, itemIndex: 0, viewOffset: HEADER_HEIGHT, animated: false });
+
+  const renderRow = ({ item }: { item: PickerEntry }) => {
+    const numbers = item.contact.phoneNumbers ?? [];
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => onSelect(item.contact)}>
+        <View style={[styles.initial, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}>
+          <ThemedText style={styles.initialText}>{item.letter}</ThemedText>
+        </View>
+        <View style={styles.rowInfo}>
+          <ThemedText style={styles.rowName} numberOfLines={1}>
+            {item.contact.name}
+          </ThemedText>
+          <ThemedText style={styles.rowNumber} numberOfLines={1}>
+            {numbers[0]?.number}
+            {numbers.length > 1 ? ` · +${numbers.length - 1} more` : ''}
+          </ThemedText>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>Select Contact</ThemedText>
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText style={styles.closeText}>Close</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.searchBar, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}>
+          <IconSymbol name="magnifyingglass" size={18} color="#8e8e93" />
+          <TextInput
+            placeholder="Search names or numbers"
+            placeholderTextColor="#888"
+            style={[styles.searchInput, { color: isDark ? '#FFF' : '#000' }]}
+            value={query}
+            onChangeText={setQuery}
+            autoCorrect={false}
+          />
+        </View>
+
+        <View style={styles.body}>
+          <SectionList
+            ref={listRef}
+            sections={sections}
+            keyExtractor={(item) => item.contact.id}
+            renderItem={renderRow}
+            renderSectionHeader={({ section }) =>
+              showSections ? (
+                <ThemedView style={styles.sectionHeader}>
+                  <ThemedText style={styles.sectionTitle}>{section.title}</ThemedText>
+                </ThemedView>
+              ) : null
+            }
+            getItemLayout={(_, index) => ({ ...layouts[index], index })}
+            initialNumToRender={20}
+            maxToRenderPerBatch={30}
+            windowSize={11}
+            keyboardShouldPersistTaps="handled"
+            stickySectionHeadersEnabled
+            onEndReached={isSearching ? undefined : loadMore}
+            onEndReachedThreshold={1}
+            ListEmptyComponent={
+              errorNotice ?? (
+                <ThemedText style={styles.emptyText}>
+                  {isBusy
+                    ? isSearching
+                      ? 'Searching contacts…'
+                      : 'Loading contacts…'
+                    : isSearching
+                      ? `No contacts match “${query.trim()}”.`
+                      : 'No contacts with phone numbers.'}
+                </ThemedText>
+              )
+            }
+            ListFooterComponent={
+              sections.length === 0 ? null : isBusy && !isSearching ? (
+                <ThemedText style={styles.emptyText}>Loading more…</ThemedText>
+              ) : (
+                errorNotice
+              )
+            }
+          />
+
+          {showSections && sections.length > 1 && (
+            <View style={styles.jumpIndex}>
+              {sections.map((section, i) => (
+                <TouchableOpacity key={section.title} hitSlop={{ left: 12, right: 4 }} onPress={() => jumpTo(i)}>
+                  <ThemedText style={styles.jumpLetter}>{section.title}</ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  closeText: {
+    color: '#ff3b30',
+    fontWeight: '600',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginBottom: 10,
+    paddingHorizontal: 12,
+    height: 44,
+    borderRadius: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+  },
+  body: {
+    flex: 1,
+  },
+  sectionHeader: {
+    height: HEADER_HEIGHT,
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    opacity: 0.5,
+  },
+  row: {
+    height: ROW_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingLeft: 20,
+    paddingRight: 36,
+  },
+  initial: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  initialText: {
+    fontWeight: '700',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  rowNumber: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  emptyText: {
+    opacity: 0.5,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  errorNotice: {
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 20,
+    paddingHorizontal: 20,
+  },
+  errorText: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  retryText: {
+    color: '#ff3b30',
+    fontWeight: '600',
+  },
+  jumpIndex: {
+    position: 'absolute',
+    right: 4,
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+  },
+  jumpLetter: {
+    fontSize: 11,
+    lineHeight: 15,
+    fontWeight: '700',
+    color: '#ff3b30',
+    paddingHorizontal: 6,
+  },
+});
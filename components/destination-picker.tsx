@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { Alert, FlatList, Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { usePersistedStore } from '@/hooks/use-persisted-store';
+import { estimateArrivalWindow, parseCoordinates } from '@/lib/geo';
+import { formatDecimal, type Coordinates } from '@/lib/location-links';
+import { placesStore, removePlace, savePlace, type SavedPlace } from '@/lib/places';
+
+type Props = {
+  visible: boolean;
+  isDark: boolean;
+  currentLocation: Coordinates | null;
+  onClose: () => void;
+  onSelect: (destination: { name: string } & Coordinates) => void;
+};
+
+function formatDistance(meters: number) {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+export function DestinationPicker({ visible, isDark, currentLocation, onClose, onSelect }: Props) {
+  const [places] = usePersistedStore(placesStore);
+  const [name, setName] = useState('');
+  const [coordinates, setCoordinates] = useState('');
+
+  const describe = (place: Coordinates) => {
+    if (!currentLocation) return formatDecimal(place, 4);
+    const { distanceM, expectedMin } = estimateArrivalWindow(currentLocation, place);
+    return `${formatDistance(distanceM)} · about ${expectedMin} min walk`;
+  };
+
+  const readInput = () => {
+    const coords = parseCoordinates(coordinates);
+    if (!coords) {
+      Alert.alert('Invalid coordinates', 'Enter latitude and longitude like "28.6139, 77.2090".');
+      return null;
+    }
+    return { name: name.trim() || 'My destination', ...coords };
+  };
+
+  const handleSave = () => {
+    const destination = readInput();
+    if (!destination) return;
+    savePlace(destination.name, destination);
+    setName('');
+    setCoordinates('');
+  };
+
+  const handleStart = () => {
+    const destination = readInput();
+    if (destination) onSelect(destination);
+  };
+
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7', color: isDark ? '#FFF' : '#000' },
+  ];
+
+  const renderPlace = ({ item }: { item: SavedPlace }) => (
+    <TouchableOpacity
+      style={styles.placeItem}
+      onPress={() => onSelect(item)}
+      onLongPress={() =>
+        Alert.alert(`Remove ${item.name}?`, undefined, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Remove', style: 'destructive', onPress: () => removePlace(item.id) },
+        ])
+      }>
+      <View style={[styles.placeIcon, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}>
+        <IconSymbol name="mappin.and.ellipse" size={18} color="#ff9500" />
+      </View>
+      <View style={styles.placeInfo}>
+        <ThemedText style={styles.placeName}>{item.name}</ThemedText>
+        <ThemedText style={styles.placeDetail}>{describe(item)}</ThemedText>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>Walk to a Destination</ThemedText>
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText style={styles.closeText}>Close</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.form}>
+          <TextInput
+            placeholder="Name (e.g. Home)"
+            placeholderTextColor="#888"
+            style={inputStyle}
+            value={name}
+            onChangeText={setName}
+          />
+          <TextInput
+            placeholder="Latitude, longitude"
+            placeholderTextColor="#888"
+            style={inputStyle}
+            value={coordinates}
+            onChangeText={setCoordinates}
+            keyboardType="numbers-and-punctuation"
+          />
+          <View style={styles.formActions}>
+            <TouchableOpacity
+              style={[styles.formButton, { backgroundColor: isDark ? '#2C2C2E' : '#E5E5EA' }]}
+              disabled={!currentLocation}
+              onPress={() => currentLocation && setCoordinates(formatDecimal(currentLocation))}>
+              <ThemedText style={styles.formButtonText}>Use Current</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.formButton, { backgroundColor: isDark ? '#2C2C2E' : '#E5E5EA' }]}
+              onPress={handleSave}>
+              <ThemedText style={styles.formButtonText}>Save Place</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.formButton, { backgroundColor: '#ff9500' }]} onPress={handleStart}>
+              <ThemedText style={[styles.formButtonText, { color: '#FFF' }]}>Start</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ThemedText style={styles.sectionTitle}>Saved Places</ThemedText>
+        <FlatList
+          data={places}
+          keyExtractor={(item) => item.id}
+          renderItem={renderPlace}
+          ListEmptyComponent={
+            <ThemedText style={styles.emptyText}>Save places you often walk to, like home or work.</ThemedText>
+          }
+        />
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeText: {
+    color: '#ff3b30',
+    fontWeight: '600',
+  },
+  form: {
+    padding: 20,
+    gap: 10,
+  },
+  input: {
+    height: 44,
+    borderRadius: 12,
+    paddingHorizontal: 15,
+    fontSize: 16,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  formButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  formButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    paddingHorizontal: 20,
+    marginBottom: 8,
+  },
+  placeItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  placeIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 15,
+  },
+  placeInfo: {
+    flex: 1,
+  },
+  placeName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  placeDetail: {
+    fontSize: 13,
+    opacity: 0.5,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.5,
+    paddingHorizontal: 20,
+  },
+});
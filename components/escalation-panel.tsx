@@ -0,0 +1,123 @@
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useNow } from '@/hooks/use-now';
+import { useStore } from '@/hooks/use-store';
+import {
+  confirmCall,
+  escalationStore,
+  skipCall,
+  stopEscalation,
+  type CallStepStatus,
+} from '@/lib/escalation';
+
+const STEP_COLORS: Record<CallStepStatus, string> = {
+  queued: '#8e8e93',
+  calling: '#ff9500',
+  confirmed: '#34c759',
+  unanswered: '#ff3b30',
+  failed: '#ff3b30',
+};
+
+const STEP_LABELS: Record<CallStepStatus, string> = {
+  queued: 'Waiting',
+  calling: 'Calling',
+  confirmed: 'Answered',
+  unanswered: 'No answer',
+  failed: 'Could not dial',
+};
+
+export function EscalationPanel({ isDark }: { isDark: boolean }) {
+  const { status, steps, current, deadline } = useStore(escalationStore);
+  const now = useNow(1000, status === 'running');
+
+  if (status === 'idle') return null;
+
+  const secondsLeft = deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : 0;
+
+  return (
+    <View style={[styles.panel, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}>
+      <ThemedText style={styles.title}>
+        {status === 'running'
+          ? `Call Chain · ${current + 1}/${steps.length} · ${deadline ? `${secondsLeft}s` : 'Answered?'}`
+          : status === 'confirmed'
+            ? 'Call Chain · Answered'
+            : status === 'exhausted'
+              ? 'Call Chain · Nobody confirmed'
+              : 'Call Chain · Stopped'}
+      </ThemedText>
+      {steps.map((step, index) => (
+        <View key={`${step.contact.id}-${index}`} style={styles.row}>
+          <ThemedText style={styles.name} numberOfLines={1}>
+            {index + 1}. {step.contact.name}
+          </ThemedText>
+          <View style={[styles.dot, { backgroundColor: STEP_COLORS[step.status] }]} />
+          <ThemedText style={styles.status}>{STEP_LABELS[step.status]}</ThemedText>
+        </View>
+      ))}
+      {status === 'running' && (
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.action, { backgroundColor: '#34c759' }]} onPress={confirmCall}>
+            <ThemedText style={styles.actionText}>They Answered</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.action, { backgroundColor: '#ff9500' }]} onPress={skipCall}>
+            <ThemedText style={styles.actionText}>Next</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.action, { backgroundColor: '#8e8e93' }]} onPress={stopEscalation}>
+            <ThemedText style={styles.actionText}>Stop</ThemedText>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 20,
+    gap: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  name: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginRight: 6,
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: '600',
+    opacity: 0.7,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  action: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  actionText: {
+    color: '#FFF',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,128 @@
+import { Image } from 'expo-image';
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useNow } from '@/hooks/use-now';
+import { useStore } from '@/hooks/use-store';
+import { answerFakeCall, endFakeCall, fakeCallStore } from '@/lib/fake-call';
+
+function formatCallTime(ms: number) {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/** Looks like the system call screen, not like SosDost, so nobody nearby can tell. */
+export function FakeCallScreen() {
+  const { phase, caller, answeredAt } = useStore(fakeCallStore);
+  const now = useNow(1000, phase === 'answered');
+  const visible = (phase === 'ringing' || phase === 'answered') && caller !== null;
+
+  return (
+    <Modal visible={visible} animationType="fade" presentationStyle="fullScreen" onRequestClose={endFakeCall}>
+      <View style={styles.container}>
+        <View style={styles.callerSection}>
+          <Text style={styles.status}>
+            {phase === 'answered' && answeredAt ? formatCallTime(now - answeredAt) : `${caller?.label ?? ''} · calling…`}
+          </Text>
+          <Text style={styles.name} numberOfLines={1}>
+            {caller?.name}
+          </Text>
+          {caller?.photoUri ? (
+            <Image source={{ uri: caller.photoUri }} style={styles.photo} contentFit="cover" />
+          ) : (
+            <View style={[styles.photo, styles.initialCircle]}>
+              <Text style={styles.initial}>{caller?.name.charAt(0).toUpperCase()}</Text>
+            </View>
+          )}
+        </View>
+
+        {phase === 'ringing' ? (
+          <View style={styles.actions}>
+            <View style={styles.action}>
+              <TouchableOpacity style={[styles.roundButton, { backgroundColor: '#ff3b30' }]} onPress={endFakeCall}>
+                <IconSymbol name="phone.down.fill" size={32} color="#FFF" />
+              </TouchableOpacity>
+              <Text style={styles.actionLabel}>Decline</Text>
+            </View>
+            <View style={styles.action}>
+              <TouchableOpacity style={[styles.roundButton, { backgroundColor: '#34c759' }]} onPress={answerFakeCall}>
+                <IconSymbol name="phone.fill" size={32} color="#FFF" />
+              </TouchableOpacity>
+              <Text style={styles.actionLabel}>Accept</Text>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.actions}>
+            <View style={styles.action}>
+              <TouchableOpacity style={[styles.roundButton, { backgroundColor: '#ff3b30' }]} onPress={endFakeCall}>
+                <IconSymbol name="phone.down.fill" size={32} color="#FFF" />
+              </TouchableOpacity>
+              <Text style={styles.actionLabel}>End</Text>
+            </View>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1c1c1e',
+    justifyContent: 'space-between',
+    paddingTop: 100,
+    paddingBottom: 80,
+  },
+  callerSection: {
+    alignItems: 'center',
+    paddingHorizontal: 30,
+  },
+  status: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 17,
+    fontVariant: ['tabular-nums'],
+  },
+  name: {
+    color: '#FFF',
+    fontSize: 36,
+    fontWeight: '400',
+    marginTop: 8,
+  },
+  photo: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    marginTop: 40,
+  },
+  initialCircle: {
+    backgroundColor: '#636366',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  initial: {
+    color: '#FFF',
+    fontSize: 52,
+    fontWeight: '500',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingHorizontal: 40,
+  },
+  action: {
+    alignItems: 'center',
+    gap: 10,
+  },
+  roundButton: {
+    width: 76,
+    height: 76,
+    borderRadius: 38,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionLabel: {
+    color: '#FFF',
+    fontSize: 15,
+  },
+});
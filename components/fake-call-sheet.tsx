@@ -0,0 +1,316 @@
+import { RecordingPresets, requestRecordingPermissionsAsync, useAudioRecorder, useAudioRecorderState } from 'expo-audio';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { useState } from 'react';
+import { Alert, FlatList, Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useNow } from '@/hooks/use-now';
+import { usePersistedStore } from '@/hooks/use-persisted-store';
+import { useStore } from '@/hooks/use-store';
+import {
+  callersStore,
+  endFakeCall,
+  fakeCallStore,
+  keepCallerMedia,
+  removeCaller,
+  saveCaller,
+  scheduleFakeCall,
+  type CallerPreset,
+} from '@/lib/fake-call';
+
+const DELAYS = [
+  { label: 'Now', seconds: 0 },
+  { label: '10 s', seconds: 10 },
+  { label: '30 s', seconds: 30 },
+  { label: '1 min', seconds: 60 },
+  { label: '5 min', seconds: 300 },
+];
+
+type Props = {
+  visible: boolean;
+  isDark: boolean;
+  onClose: () => void;
+};
+
+export function FakeCallSheet({ visible, isDark, onClose }: Props) {
+  const [callers] = usePersistedStore(callersStore);
+  const { phase, caller: scheduledCaller, ringAt } = useStore(fakeCallStore);
+  const now = useNow(1000, phase === 'scheduled');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [delay, setDelay] = useState(10);
+  const [name, setName] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [voiceUri, setVoiceUri] = useState<string | null>(null);
+  const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+  const { isRecording } = useAudioRecorderState(recorder);
+
+  const selected = callers.find((caller) => caller.id === selectedId) ?? callers[0];
+
+  const pickPhoto = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.7,
+    });
+    if (!result.canceled) setPhotoUri(result.assets[0].uri);
+  };
+
+  const toggleVoice = async () => {
+    if (isRecording) {
+      await recorder.stop();
+      setVoiceUri(recorder.uri);
+      return;
+    }
+    if (!(await requestRecordingPermissionsAsync()).granted) {
+      Alert.alert('Microphone access needed', 'Allow microphone access to record what the caller says.');
+      return;
+    }
+    await recorder.prepareToRecordAsync();
+    recorder.record();
+  };
+
+  const handleSaveCaller = () => {
+    if (!name.trim()) {
+      Alert.alert('Name required', 'Enter the name the call should show.');
+      return;
+    }
+    const saved = saveCaller({
+      name: name.trim(),
+      label: 'mobile',
+      photoUri: photoUri && keepCallerMedia(photoUri, 'photo'),
+      voiceUri: voiceUri && keepCallerMedia(voiceUri, 'voice'),
+    });
+    setSelectedId(saved.id);
+    setName('');
+    setPhotoUri(null);
+    setVoiceUri(null);
+  };
+
+  const handleSchedule = () => {
+    if (!selected) return;
+    scheduleFakeCall(selected, delay);
+    onClose();
+  };
+
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7', color: isDark ? '#FFF' : '#000' },
+  ];
+  const chipColor = isDark ? '#2C2C2E' : '#E5E5EA';
+
+  const renderCaller = ({ item }: { item: CallerPreset }) => (
+    <TouchableOpacity
+      style={styles.callerItem}
+      onPress={() => setSelectedId(item.id)}
+      onLongPress={() =>
+        Alert.alert(`Remove ${item.name}?`, undefined, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Remove', style: 'destructive', onPress: () => removeCaller(item.id) },
+        ])
+      }>
+      {item.photoUri ? (
+        <Image source={{ uri: item.photoUri }} style={styles.avatar} contentFit="cover" />
+      ) : (
+        <View style={[styles.avatar, { backgroundColor: isDark ? '#2C2C2E' : '#E5E5EA' }]}>
+          <ThemedText style={styles.avatarInitial}>{item.name.charAt(0).toUpperCase()}</ThemedText>
+        </View>
+      )}
+      <View style={styles.callerInfo}>
+        <ThemedText style={styles.callerName}>{item.name}</ThemedText>
+        <ThemedText style={styles.callerDetail}>{item.voiceUri ? 'Plays a recorded voice' : 'Silent when answered'}</ThemedText>
+      </View>
+      {item.id === selected?.id && <IconSymbol name="checkmark.circle.fill" size={22} color="#007aff" />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>Fake Call</ThemedText>
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText style={styles.closeText}>Close</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        {phase === 'scheduled' && scheduledCaller && ringAt && (
+          <View style={[styles.scheduled, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}>
+            <ThemedText style={styles.scheduledText}>
+              {scheduledCaller.name} calls in {Math.max(0, Math.ceil((ringAt - now) / 1000))}s
+            </ThemedText>
+            <TouchableOpacity onPress={endFakeCall}>
+              <ThemedText style={styles.closeText}>Cancel</ThemedText>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <FlatList
+          data={callers}
+          keyExtractor={(item) => item.id}
+          renderItem={renderCaller}
+          ListFooterComponent={
+            <View style={styles.form}>
+              <ThemedText style={styles.sectionTitle}>New Caller</ThemedText>
+              <TextInput
+                placeholder="Name shown on the call"
+                placeholderTextColor="#888"
+                style={inputStyle}
+                value={name}
+                onChangeText={setName}
+              />
+              <View style={styles.row}>
+                <TouchableOpacity style={[styles.chip, { backgroundColor: chipColor }]} onPress={pickPhoto}>
+                  <ThemedText style={styles.chipText}>{photoUri ? 'Photo ✓' : 'Add Photo'}</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.chip, { backgroundColor: isRecording ? '#ff3b30' : chipColor }]}
+                  onPress={toggleVoice}>
+                  <ThemedText style={[styles.chipText, isRecording && { color: '#FFF' }]}>
+                    {isRecording ? 'Stop Recording' : voiceUri ? 'Voice ✓' : 'Record Voice'}
+                  </ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.chip, { backgroundColor: chipColor }]} onPress={handleSaveCaller}>
+                  <ThemedText style={styles.chipText}>Save</ThemedText>
+                </TouchableOpacity>
+              </View>
+
+              <ThemedText style={styles.sectionTitle}>Ring In</ThemedText>
+              <View style={styles.row}>
+                {DELAYS.map((option) => (
+                  <TouchableOpacity
+                    key={option.seconds}
+                    style={[styles.chip, { backgroundColor: option.seconds === delay ? '#007aff' : chipColor }]}
+                    onPress={() => setDelay(option.seconds)}>
+                    <ThemedText style={[styles.chipText, option.seconds === delay && { color: '#FFF' }]}>
+                      {option.label}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.scheduleButton, !selected && { opacity: 0.5 }]}
+                disabled={!selected}
+                onPress={handleSchedule}>
+                <ThemedText style={styles.scheduleText}>
+                  {delay === 0 ? 'Ring Now' : `Schedule Call from ${selected?.name ?? '…'}`}
+                </ThemedText>
+              </TouchableOpacity>
+            </View>
+          }
+        />
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeText: {
+    color: '#ff3b30',
+    fontWeight: '600',
+  },
+  scheduled: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    margin: 20,
+    marginBottom: 0,
+    padding: 15,
+    borderRadius: 12,
+  },
+  scheduledText: {
+    fontWeight: '600',
+  },
+  callerItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 15,
+  },
+  avatarInitial: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  callerInfo: {
+    flex: 1,
+  },
+  callerName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  callerDetail: {
+    fontSize: 13,
+    opacity: 0.5,
+    marginTop: 2,
+  },
+  form: {
+    padding: 20,
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginTop: 10,
+  },
+  input: {
+    height: 44,
+    borderRadius: 12,
+    paddingHorizontal: 15,
+    fontSize: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scheduleButton: {
+    backgroundColor: '#007aff',
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  scheduleText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,41 @@
+import { StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { unlockApp } from '@/lib/app-lock';
+
+/** Stands in for a protected screen until the owner unlocks the app. */
+export function LockedScreen({ message, reason }: { message: string; reason: string }) {
+  return (
+    <ThemedView style={styles.locked}>
+      <IconSymbol name="lock.fill" size={40} color="#8e8e93" />
+      <ThemedText style={styles.lockedText}>{message}</ThemedText>
+      <TouchableOpacity style={styles.unlockButton} onPress={() => unlockApp(reason)}>
+        <ThemedText style={styles.unlockText}>Unlock</ThemedText>
+      </TouchableOpacity>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  locked: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  lockedText: {
+    opacity: 0.6,
+  },
+  unlockButton: {
+    backgroundColor: '#ff3b30',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  unlockText: {
+    color: '#FFF',
+    fontWeight: '700',
+  },
+});
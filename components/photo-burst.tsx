@@ -0,0 +1,36 @@
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { useRef } from 'react';
+import { StyleSheet } from 'react-native';
+
+import { useStore } from '@/hooks/use-store';
+import { photoBurstStore, takePhotoBurst } from '@/lib/camera-evidence';
+
+/**
+ * Mounts an invisible camera while an SOS is waiting for its photo burst.
+ * Permission is never requested here; there is no time to ask mid-emergency.
+ */
+export function PhotoBurst() {
+  const pending = useStore(photoBurstStore);
+  const [permission] = useCameraPermissions();
+  const camera = useRef<CameraView>(null);
+
+  if (!pending || !permission?.granted) return null;
+
+  const handleReady = () => {
+    if (!camera.current) return;
+    takePhotoBurst(camera.current)
+      .catch((error) => console.warn('Photo burst failed:', error))
+      .finally(() => photoBurstStore.setState(null));
+  };
+
+  return <CameraView ref={camera} style={styles.hidden} facing="back" onCameraReady={handleReady} />;
+}
+
+const styles = StyleSheet.create({
+  hidden: {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    opacity: 0,
+  },
+});
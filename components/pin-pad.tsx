@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { Modal, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { PIN_LENGTH } from '@/lib/pin';
+
+type Props = {
+  visible: boolean;
+  isDark: boolean;
+  title: string;
+  subtitle?: string;
+  /** Resolves an error to show and clear the entry, or `null` when accepted. */
+  onSubmit: (pin: string) => Promise<string | null>;
+  onClose: () => void;
+};
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'delete'];
+
+export function PinPad({ visible, isDark, title, subtitle, onSubmit, onClose }: Props) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setPin('');
+    setError(null);
+  }, [visible]);
+
+  const press = (key: string) => {
+    setError(null);
+    if (key === 'delete') setPin((current) => current.slice(0, -1));
+    else if (pin.length < PIN_LENGTH.max) setPin((current) => current + key);
+  };
+
+  const submit = async () => {
+    setIsChecking(true);
+    try {
+      const message = await onSubmit(pin);
+      setPin('');
+      setError(message);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const canSubmit = pin.length >= PIN_LENGTH.min && !isChecking;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText style={styles.closeText}>Cancel</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <ThemedText style={styles.title}>{title}</ThemedText>
+        {subtitle && <ThemedText style={styles.subtitle}>{subtitle}</ThemedText>}
+
+        <View style={styles.dots}>
+          {Array.from({ length: Math.max(PIN_LENGTH.min, pin.length) }, (_, i) => (
+            <View
+              key={i}
+              style={[styles.dot, { borderColor: isDark ? '#FFF' : '#000' }, i < pin.length && styles.dotFilled]}
+            />
+          ))}
+        </View>
+        <ThemedText style={styles.error}>{error ?? ' '}</ThemedText>
+
+        <View style={styles.keys}>
+          {KEYS.map((key, i) =>
+            key === '' ? (
+              <View key={i} style={styles.key} />
+            ) : (
+              <TouchableOpacity
+                key={i}
+                style={[styles.key, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7' }]}
+                onPress={() => press(key)}
+              >
+                {key === 'delete' ? (
+                  <IconSymbol name="delete.left" size={26} color={isDark ? '#FFF' : '#000'} />
+                ) : (
+                  <ThemedText style={styles.keyText}>{key}</ThemedText>
+                )}
+              </TouchableOpacity>
+            )
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.submitButton, !canSubmit && { opacity: 0.4 }]}
+          disabled={!canSubmit}
+          onPress={submit}
+        >
+          <ThemedText style={styles.submitText}>{isChecking ? 'Checking…' : 'Confirm'}</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    paddingHorizontal: 30,
+  },
+  header: {
+    alignSelf: 'stretch',
+    alignItems: 'flex-end',
+    paddingVertical: 20,
+  },
+  closeText: {
+    color: '#ff3b30',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginTop: 10,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 14,
+    marginTop: 30,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1.5,
+  },
+  dotFilled: {
+    backgroundColor: '#ff3b30',
+    borderColor: '#ff3b30',
+  },
+  error: {
+    color: '#ff3b30',
+    fontSize: 14,
+    marginTop: 14,
+  },
+  keys: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 18,
+    width: 282,
+    marginTop: 20,
+  },
+  key: {
+    width: 76,
+    height: 76,
+    borderRadius: 38,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyText: {
+    fontSize: 30,
+    lineHeight: 36,
+    fontWeight: '500',
+  },
+  submitButton: {
+    marginTop: 30,
+    alignSelf: 'stretch',
+    height: 54,
+    borderRadius: 16,
+    backgroundColor: '#ff3b30',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  submitText: {
+    color: '#FFF',
+    fontSize: 17,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,60 @@
+import { Alert, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useNow } from '@/hooks/use-now';
+import { useStore } from '@/hooks/use-store';
+import { recordingStore, stopAudioRecording } from '@/lib/audio-recording';
+import { incidentStore, isUnderDuress } from '@/lib/incident';
+
+function formatElapsed(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/** A small, muted badge so a recording is not obvious to someone looking over the user's shoulder. */
+export function RecordingIndicator() {
+  const session = useStore(recordingStore);
+  const hidden = isUnderDuress(useStore(incidentStore));
+  const now = useNow(1000, session !== null);
+
+  if (!session || hidden) return null;
+
+  const handlePress = () =>
+    Alert.alert('Stop recording?', `${session.savedChunks} chunk(s) saved so far.`, [
+      { text: 'Keep Recording', style: 'cancel' },
+      { text: 'Stop', style: 'destructive', onPress: () => stopAudioRecording() },
+    ]);
+
+  return (
+    <TouchableOpacity style={styles.badge} onPress={handlePress}>
+      <View style={styles.dot} />
+      <ThemedText style={styles.text}>{formatElapsed(now - session.startedAt)}</ThemedText>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: 'rgba(142, 142, 147, 0.12)',
+  },
+  dot: {
+    width: 5,
+    height: 5,
+    borderRadius: 2.5,
+    marginRight: 5,
+    backgroundColor: '#ff3b30',
+  },
+  text: {
+    fontSize: 11,
+    fontWeight: '600',
+    opacity: 0.5,
+    fontVariant: ['tabular-nums'],
+  },
+});
@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react';
+import { FlatList, Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { EMERGENCY_NUMBERS, type RegionNumbers } from '@/lib/emergency-numbers';
+
+type Props = {
+  visible: boolean;
+  isDark: boolean;
+  /** The manual choice, or `null` when following location. */
+  selected: string | null;
+  detected: string | null;
+  onClose: () => void;
+  onSelect: (region: string | null) => void;
+};
+
+const REGIONS = Object.entries(EMERGENCY_NUMBERS)
+  .map(([code, numbers]) => ({ code, ...numbers }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+function summarize(numbers: RegionNumbers) {
+  const distinct = [...new Set([numbers.police, numbers.ambulance, numbers.fire, numbers.emergency])];
+  return distinct.filter(Boolean).join(' · ');
+}
+
+export function RegionPicker({ visible, isDark, selected, detected, onClose, onSelect }: Props) {
+  const [query, setQuery] = useState('');
+
+  const regions = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return needle
+      ? REGIONS.filter((region) => region.name.toLowerCase().includes(needle) || region.code.toLowerCase() === needle)
+      : REGIONS;
+  }, [query]);
+
+  const renderRow = (code: string | null, title: string, detail: string) => (
+    <TouchableOpacity style={styles.row} onPress={() => onSelect(code)}>
+      <View style={styles.rowInfo}>
+        <ThemedText style={styles.rowTitle}>{title}</ThemedText>
+        <ThemedText style={styles.rowDetail}>{detail}</ThemedText>
+      </View>
+      {selected === code && <IconSymbol name="checkmark.circle.fill" size={22} color="#ff3b30" />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>Emergency Numbers</ThemedText>
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText style={styles.closeText}>Close</ThemedText>
+          </TouchableOpacity>
+        </View>
+        <TextInput
+          placeholder="Search countries"
+          placeholderTextColor="#888"
+          style={[styles.search, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7', color: isDark ? '#FFF' : '#000' }]}
+          value={query}
+          onChangeText={setQuery}
+        />
+        <FlatList
+          data={regions}
+          keyExtractor={(item) => item.code}
+          ListHeaderComponent={renderRow(
+            null,
+            'Automatic',
+            detected ? `Following your location (${EMERGENCY_NUMBERS[detected]?.name ?? detected})` : 'Following your location'
+          )}
+          renderItem={({ item }) => renderRow(item.code, item.name, summarize(item))}
+        />
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeText: {
+    color: '#ff3b30',
+    fontWeight: '600',
+  },
+  search: {
+    height: 44,
+    borderRadius: 12,
+    paddingHorizontal: 15,
+    fontSize: 16,
+    margin: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  rowDetail: {
+    fontSize: 13,
+    opacity: 0.5,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { Alert, Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { settingsStore } from '@/lib/settings';
+
+type Props = {
+  visible: boolean;
+  isDark: boolean;
+  onClose: () => void;
+};
+
+/** Sets up the HTTP gateway that lets alerts go out without the SMS composer. */
+export function SmsGatewaySheet({ visible, isDark, onClose }: Props) {
+  const [endpoint, setEndpoint] = useState('');
+
+  useEffect(() => {
+    if (visible) setEndpoint(settingsStore.getState().smsGatewayUrl ?? '');
+  }, [visible]);
+
+  const save = () => {
+    const url = endpoint.trim();
+    if (url && !/^https?:\/\//.test(url)) {
+      Alert.alert('Invalid address', 'The gateway address must start with http:// or https://.');
+      return;
+    }
+    settingsStore.setState((current) => ({ ...current, smsGatewayUrl: url || null }));
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <ThemedView style={styles.container}>
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>Background SMS</ThemedText>
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText style={styles.closeText}>Close</ThemedText>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.body}>
+          <ThemedText style={styles.text}>
+            Phones only let SosDost send a text through the SMS app, with you tapping send. Messages that go out while
+            nobody is looking (live location updates, Safewalk escalations and arrival notices, duress notices) need an
+            SMS gateway instead.
+          </ThemedText>
+          <ThemedText style={styles.text}>
+            Without one, those messages wait until SosDost is opened and are then offered in the SMS app. A duress
+            notice cannot be sent at all, because opening the SMS app would give it away.
+          </ThemedText>
+          <ThemedText style={styles.label}>Gateway address</ThemedText>
+          <TextInput
+            placeholder="https://sms.example.com/send"
+            placeholderTextColor="#888"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            style={[styles.input, { backgroundColor: isDark ? '#1C1C1E' : '#F2F2F7', color: isDark ? '#FFF' : '#000' }]}
+            value={endpoint}
+            onChangeText={setEndpoint}
+          />
+          <ThemedText style={styles.hint}>
+            Each message is posted as JSON {'{ "to": "+15551234567", "body": "…" }'}; any 2xx response counts as sent.
+          </ThemedText>
+          <TouchableOpacity style={styles.saveButton} onPress={save}>
+            <ThemedText style={styles.saveText}>{endpoint.trim() ? 'Save' : 'Turn Off'}</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeText: {
+    color: '#ff3b30',
+    fontWeight: '600',
+  },
+  body: {
+    padding: 20,
+    gap: 12,
+  },
+  text: {
+    fontSize: 14,
+    lineHeight: 20,
+    opacity: 0.8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '700',
+    opacity: 0.5,
+    marginTop: 8,
+  },
+  input: {
+    height: 44,
+    borderRadius: 12,
+    paddingHorizontal: 15,
+    fontSize: 16,
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.5,
+  },
+  saveButton: {
+    backgroundColor: '#ff3b30',
+    borderRadius: 12,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveText: {
+    color: '#FFF',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+});
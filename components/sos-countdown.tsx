@@ -0,0 +1,67 @@
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { useNow } from '@/hooks/use-now';
+import { useStore } from '@/hooks/use-store';
+import { abortCountdown, countdownStore } from '@/lib/sos';
+
+/** Covers every screen while a trigger can still be taken back. */
+export function SosCountdown() {
+  const { deadline } = useStore(countdownStore);
+  const now = useNow(250, deadline !== null);
+  const remaining = deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : 0;
+
+  return (
+    <Modal visible={deadline !== null} animationType="fade" presentationStyle="fullScreen" onRequestClose={abortCountdown}>
+      <View style={styles.container}>
+        <Text style={styles.title}>Sending SOS in</Text>
+        <Text style={styles.seconds}>{remaining}</Text>
+        <Text style={styles.subtitle}>Your contacts will be alerted when the countdown ends.</Text>
+        <TouchableOpacity style={styles.cancelButton} onPress={abortCountdown}>
+          <Text style={styles.cancelText}>CANCEL</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ff3b30',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 30,
+  },
+  title: {
+    color: '#FFF',
+    fontSize: 22,
+    fontWeight: '600',
+  },
+  seconds: {
+    color: '#FFF',
+    fontSize: 140,
+    fontWeight: '800',
+    fontVariant: ['tabular-nums'],
+    lineHeight: 160,
+  },
+  subtitle: {
+    color: 'rgba(255,255,255,0.85)',
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  cancelButton: {
+    marginTop: 60,
+    width: '100%',
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#FFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cancelText: {
+    color: '#ff3b30',
+    fontSize: 24,
+    fontWeight: '800',
+    letterSpacing: 2,
+  },
+});
@@ -6,7 +6,7 @@ import { ComponentProps } from 'react';
 import { OpaqueColorValue, type StyleProp, type TextStyle } from 'react-native';
 
 type IconMapping = Record<SymbolViewProps['name'], ComponentProps<typeof MaterialIcons>['name']>;
-type IconSymbolName = keyof typeof MAPPING;
+export type IconSymbolName = keyof typeof MAPPING;
 
 /**
  * Add your SF Symbols to Material Icons mappings here.
@@ -15,9 +15,38 @@ type IconSymbolName = keyof typeof MAPPING;
  */
 const MAPPING = {
   'house.fill': 'home',
-  'paperplane.fill': 'send',
-  'chevron.left.forwardslash.chevron.right': 'code',
+  'book.fill': 'menu-book',
   'chevron.right': 'chevron-right',
+  'arrow.triangle.2.circlepath.camera': 'flip-camera-ios',
+  'briefcase.fill': 'work',
+  'camera.fill': 'photo-camera',
+  'checkmark.circle.fill': 'check-circle',
+  'checkmark.shield.fill': 'verified-user',
+  circle: 'radio-button-unchecked',
+  'cross.circle.fill': 'local-hospital',
+  'delete.left': 'backspace',
+  'exclamationmark.circle.fill': 'error',
+  'exclamationmark.triangle.fill': 'warning',
+  'figure.and.child.holdinghands': 'child-care',
+  'figure.walk': 'directions-walk',
+  'flame.fill': 'local-fire-department',
+  globe: 'public',
+  'heart.fill': 'favorite',
+  'line.3.horizontal': 'drag-handle',
+  'lock.fill': 'lock',
+  magnifyingglass: 'search',
+  'mappin.and.ellipse': 'place',
+  'mic.fill': 'mic',
+  'person.2.fill': 'people',
+  'person.crop.circle.fill': 'account-circle',
+  'person.fill': 'person',
+  'phone.badge.waveform.fill': 'phone-in-talk',
+  'phone.down.fill': 'call-end',
+  'phone.fill': 'phone',
+  'shield.fill': 'shield',
+  'square.and.arrow.up': 'ios-share',
+  'star.fill': 'star',
+  'video.fill': 'videocam',
 } as IconMapping;
 
 /**
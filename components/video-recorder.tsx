@@ -0,0 +1,188 @@
+import { CameraView, useCameraPermissions, useMicrophonePermissions, type CameraType } from 'expo-camera';
+import { useRef, useState } from 'react';
+import { Alert, Modal, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { useNow } from '@/hooks/use-now';
+import { recordingStore, stopAudioRecording } from '@/lib/audio-recording';
+import { recordVideoSegments } from '@/lib/camera-evidence';
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+export function VideoRecorder({ visible, onClose }: Props) {
+  const camera = useRef<CameraView>(null);
+  const recording = useRef(false);
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  const [micPermission, requestMicPermission] = useMicrophonePermissions();
+  const [facing, setFacing] = useState<CameraType>('back');
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const now = useNow(1000, startedAt !== null);
+
+  const granted = cameraPermission?.granted && micPermission?.granted;
+
+  const requestPermissions = async () => {
+    const cameraResult = await requestCameraPermission();
+    const micResult = await requestMicPermission();
+    if (!cameraResult.granted || !micResult.granted) {
+      Alert.alert('Permission needed', 'Allow camera and microphone access in Settings to record video evidence.');
+    }
+  };
+
+  const startRecording = async () => {
+    if (!camera.current) return;
+    // The microphone cannot feed two recorders at once.
+    if (recordingStore.getState()) await stopAudioRecording();
+    recording.current = true;
+    setStartedAt(Date.now());
+    try {
+      await recordVideoSegments(camera.current, () => recording.current);
+    } catch (error) {
+      Alert.alert('Recording stopped', error instanceof Error ? error.message : String(error));
+    } finally {
+      recording.current = false;
+      setStartedAt(null);
+    }
+  };
+
+  const stopRecording = () => {
+    recording.current = false;
+    camera.current?.stopRecording();
+  };
+
+  const handleClose = () => {
+    stopRecording();
+    onClose();
+  };
+
+  const elapsed = startedAt ? Math.floor((now - startedAt) / 1000) : 0;
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={handleClose}>
+      <View style={styles.container}>
+        {granted ? (
+          <CameraView ref={camera} style={StyleSheet.absoluteFill} facing={facing} mode="video" />
+        ) : (
+          <View style={styles.permission}>
+            <ThemedText style={styles.permissionText}>Camera and microphone access are needed to record video.</ThemedText>
+            <TouchableOpacity style={styles.permissionButton} onPress={requestPermissions}>
+              <ThemedText style={styles.permissionButtonText}>Allow Access</ThemedText>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.topBar}>
+          <TouchableOpacity onPress={handleClose}>
+            <ThemedText style={styles.closeText}>Close</ThemedText>
+          </TouchableOpacity>
+          {startedAt !== null && (
+            <ThemedText style={styles.timer}>
+              ● {Math.floor(elapsed / 60)}:{String(elapsed % 60).padStart(2, '0')}
+            </ThemedText>
+          )}
+        </View>
+
+        {granted && (
+          <View style={styles.controls}>
+            <TouchableOpacity
+              style={styles.flipButton}
+              disabled={startedAt !== null}
+              onPress={() => setFacing((current) => (current === 'back' ? 'front' : 'back'))}>
+              <IconSymbol name="arrow.triangle.2.circlepath.camera" size={26} color="#FFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.recordButton}
+              onPress={startedAt === null ? startRecording : stopRecording}>
+              <View style={startedAt === null ? styles.recordDot : styles.stopSquare} />
+            </TouchableOpacity>
+            <View style={styles.flipButton} />
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  permission: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 30,
+    gap: 16,
+  },
+  permissionText: {
+    color: '#FFF',
+    textAlign: 'center',
+  },
+  permissionButton: {
+    backgroundColor: '#ff3b30',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  permissionButtonText: {
+    color: '#FFF',
+    fontWeight: '700',
+  },
+  topBar: {
+    position: 'absolute',
+    top: 60,
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  closeText: {
+    color: '#FFF',
+    fontWeight: '600',
+  },
+  timer: {
+    color: '#ff3b30',
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  controls: {
+    position: 'absolute',
+    bottom: 50,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignItems: 'center',
+  },
+  flipButton: {
+    width: 50,
+    height: 50,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  recordButton: {
+    width: 76,
+    height: 76,
+    borderRadius: 38,
+    borderWidth: 4,
+    borderColor: '#FFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  recordDot: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#ff3b30',
+  },
+  stopSquare: {
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+    backgroundColor: '#ff3b30',
+  },
+});
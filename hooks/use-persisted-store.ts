@@ -0,0 +1,19 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import type { PersistedStore } from '@/lib/storage';
+
+/**
+ * Reads a persisted store and whether it has finished loading from disk.
+ * Hydration is normally started by the root layout; this only kicks it off
+ * if a screen mounts first.
+ */
+export function usePersistedStore<T>(store: PersistedStore<T>): [T, boolean] {
+  const value = useSyncExternalStore(store.subscribe, store.getState, store.getState);
+  const hydrated = useSyncExternalStore(store.subscribe, store.isHydrated, store.isHydrated);
+
+  useEffect(() => {
+    store.hydrate();
+  }, [store]);
+
+  return [value, hydrated];
+}
@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { contactsStore, normalizeSavedPhones, type EmergencyContact } from '@/lib/contacts';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-localization', () => ({ getLocales: () => [{ regionCode: 'IN' }] }));
+
+function contact(id: string, phone: string, changes: Partial<EmergencyContact> = {}): EmergencyContact {
+  return {
+    id,
+    name: id,
+    phone,
+    icon: 'person.fill',
+    relation: 'Friend',
+    group: null,
+    alerts: ['sos'],
+    deviceContactId: null,
+    ...changes,
+  };
+}
+
+const POLICE = contact('police', '100', { icon: 'shield.fill', relation: 'Official', alerts: [] });
+
+describe('normalizeSavedPhones', () => {
+  it('reads national numbers as the given region', () => {
+    expect(normalizeSavedPhones([contact('asha', '98765 43210')], 'IN')[0].phone).toBe('+919876543210');
+    expect(normalizeSavedPhones([contact('asha', '(202) 555-0143')], 'US')[0].phone).toBe('+12025550143');
+  });
+
+  it('only parses numbers with their country code in the unknown region', () => {
+    const [national, international] = normalizeSavedPhones(
+      [contact('asha', '9876543210'), contact('ravi', '+91 98765 43211')],
+      'ZZ'
+    );
+    expect(national.phone).toBe('9876543210');
+    expect(international.phone).toBe('+919876543211');
+  });
+
+  it('leaves service numbers alone', () => {
+    expect(normalizeSavedPhones([POLICE], 'IN')).toEqual([POLICE]);
+  });
+
+  it('merges copies of one number into the higher-priority one', () => {
+    const merged = normalizeSavedPhones(
+      [
+        contact('asha', '+919876543210', { alerts: ['sos'], group: null }),
+        contact('asha-2', '09876543210', { alerts: ['calls'], group: 'family', deviceContactId: 'dev-1' }),
+      ],
+      'IN'
+    );
+    expect(merged).toEqual([
+      contact('asha', '+919876543210', { alerts: ['sos', 'calls'], group: 'family', deviceContactId: 'dev-1' }),
+    ]);
+  });
+
+  it('keeps only calls for landlines', () => {
+    const [landline] = normalizeSavedPhones([contact('office', '011 2345 6789', { alerts: ['sos', 'calls'] })], 'IN');
+    expect(landline).toMatchObject({ phone: '+911123456789', alerts: ['calls'] });
+  });
+});
+
+describe('contacts migration', () => {
+  it('upgrades the first saved layout with numbers in the device region', async () => {
+    await AsyncStorage.setItem(
+      'sosdost.priorityContacts',
+      JSON.stringify({
+        version: 1,
+        data: [
+          { id: 'police', name: 'Police Control', phone: '100', icon: 'shield.fill', relation: 'Official' },
+          { id: 'dev-7', name: 'Asha', phone: '98765 43210', icon: 'person.fill', relation: 'Sister' },
+        ],
+      })
+    );
+    await contactsStore.hydrate();
+    expect(contactsStore.getState()).toEqual([
+      {
+        id: 'police',
+        name: 'Police Control',
+        phone: '100',
+        icon: 'shield.fill',
+        relation: 'Official',
+        group: null,
+        alerts: [],
+        deviceContactId: null,
+      },
+      {
+        id: 'dev-7',
+        name: 'Asha',
+        phone: '+919876543210',
+        icon: 'person.fill',
+        relation: 'Sister',
+        group: null,
+        alerts: ['sos', 'tracking', 'safewalk', 'calls'],
+        deviceContactId: 'dev-7',
+      },
+    ]);
+  });
+});
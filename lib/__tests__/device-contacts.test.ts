@@ -0,0 +1,140 @@
+import * as Contacts from 'expo-contacts';
+
+import {
+  loadContactsPage,
+  searchDeviceContacts,
+  searchEntries,
+  sectionEntries,
+  toPickerEntry,
+  type PickerEntry,
+} from '@/lib/device-contacts';
+
+jest.mock('expo-contacts', () => ({
+  Fields: { PhoneNumbers: 'phoneNumbers' },
+  SortTypes: { FirstName: 'firstName' },
+  getContactsAsync: jest.fn(),
+}));
+
+function person(name: string, ...numbers: string[]): Contacts.ExistingContact {
+  return {
+    id: name,
+    name,
+    contactType: 'person',
+    phoneNumbers: numbers.map((number) => ({ number, label: 'mobile' })),
+  } as Contacts.ExistingContact;
+}
+
+const BOOK = [
+  person('Asha Verma', '098765 43210'),
+  person('José Ørsted', '+1 (415) 555-0132'),
+  person('Joseph Stalin'),
+  person('Meera Nair', '+91-99887-76655', '011 2345 6789'),
+  person('Ravi Kumar', '9812345678'),
+  person('123 Taxi', '1800 180 1234'),
+];
+const ENTRIES = BOOK.map((contact) => toPickerEntry(contact, 'IN')).filter((entry): entry is PickerEntry => entry !== null);
+const namesOf = (entries: PickerEntry[]) => entries.map((entry) => entry.contact.name);
+
+/** Serves the address book as these pages, one per read. */
+function servePages(...pages: Contacts.ExistingContact[][]) {
+  const read = jest.mocked(Contacts.getContactsAsync).mockReset();
+  pages.forEach((data, i) =>
+    read.mockResolvedValueOnce({ data, hasNextPage: i < pages.length - 1, hasPreviousPage: i > 0 })
+  );
+}
+
+describe('toPickerEntry', () => {
+  it('skips contacts without a number', () => {
+    expect(namesOf(ENTRIES)).not.toContain('Joseph Stalin');
+  });
+
+  it('indexes each number as saved and with its country code', () => {
+    expect(ENTRIES[0].digits).toEqual(['09876543210', '919876543210']);
+    expect(ENTRIES[1].digits).toEqual(['14155550132']);
+  });
+
+  it('files names that do not start with a letter under "#"', () => {
+    expect(ENTRIES.map((entry) => entry.letter)).toEqual(['A', 'J', 'M', 'R', '#']);
+  });
+});
+
+describe('sectionEntries', () => {
+  it('groups by letter with "#" last', () => {
+    expect(sectionEntries([...ENTRIES].reverse()).map((section) => section.title)).toEqual(['A', 'J', 'M', 'R', '#']);
+  });
+});
+
+describe('searchEntries', () => {
+  it.each([
+    ['asha', ['Asha Verma']],
+    ['jose', ['José Ørsted']],
+    ['ors', ['José Ørsted']],
+    ['mnr', ['Meera Nair']],
+    ['nair meera', ['Meera Nair']],
+    ['vrm', ['Asha Verma']],
+  ])('matches names fuzzily, ignoring case and accents: %p', (query, names) => {
+    expect(namesOf(searchEntries(ENTRIES, query, 'IN'))).toEqual(names);
+  });
+
+  it('ranks word starts and runs of letters first', () => {
+    expect(namesOf(searchEntries(ENTRIES, 'ra', 'IN'))).toEqual(['Ravi Kumar', 'Meera Nair', 'Asha Verma']);
+  });
+
+  it('keeps every entry for a blank query', () => {
+    expect(searchEntries(ENTRIES, '   ', 'IN')).toBe(ENTRIES);
+  });
+
+  it.each([
+    ['98765', 'Asha Verma'],
+    ['98765 43210', 'Asha Verma'],
+    ['098765-43210', 'Asha Verma'],
+    ['+91 98765 43210', 'Asha Verma'],
+    ['+91 98765', 'Asha Verma'],
+    ['9988776655', 'Meera Nair'],
+    ['99887 76655', 'Meera Nair'],
+    ['2345 6789', 'Meera Nair'],
+    ['(415) 555-0132', 'José Ørsted'],
+    ['+1 415', 'José Ørsted'],
+    ['+91 98123 45678', 'Ravi Kumar'],
+  ])('matches numbers however either is written: %p', (query, name) => {
+    expect(namesOf(searchEntries(ENTRIES, query, 'IN'))).toEqual([name]);
+  });
+
+  it('searches names for digit queries too short to be a number', () => {
+    expect(namesOf(searchEntries(ENTRIES, '12', 'IN'))).toEqual(['123 Taxi']);
+  });
+});
+
+describe('loadContactsPage', () => {
+  it('hands back where the next page starts', async () => {
+    servePages(BOOK.slice(0, 4), BOOK.slice(4));
+    const first = await loadContactsPage(0, 'IN');
+    expect(namesOf(first.entries)).toEqual(['Asha Verma', 'José Ørsted', 'Meera Nair']);
+    expect(first.nextOffset).toBe(250);
+    expect(Contacts.getContactsAsync).toHaveBeenLastCalledWith(expect.objectContaining({ pageOffset: 0, pageSize: 250 }));
+  });
+
+  it('ends after the last page', async () => {
+    servePages(BOOK);
+    expect((await loadContactsPage(0, 'IN')).nextOffset).toBeNull();
+  });
+});
+
+describe('searchDeviceContacts', () => {
+  it('walks every page and keeps only the best matches', async () => {
+    servePages(BOOK.slice(0, 2), BOOK.slice(2, 4), BOOK.slice(4));
+    expect(namesOf((await searchDeviceContacts('ra', 'IN', () => false, 2))!)).toEqual(['Ravi Kumar', 'Meera Nair']);
+    expect(jest.mocked(Contacts.getContactsAsync).mock.calls.map(([query]) => query?.pageOffset)).toEqual([0, 250, 500]);
+  });
+
+  it('resolves null once cancelled', async () => {
+    servePages(BOOK);
+    expect(await searchDeviceContacts('asha', 'IN', () => true)).toBeNull();
+  });
+
+  it('does not read the book for a blank query', async () => {
+    servePages(BOOK);
+    expect(await searchDeviceContacts(' ', 'IN', () => false)).toEqual([]);
+    expect(Contacts.getContactsAsync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import { AppState } from 'react-native';
+
+import { dispatchAlert, dispatchStore, flushOutbox, setAlertTransports } from '@/lib/alerts/dispatch';
+import { createMockTransport } from '@/lib/alerts/mock';
+import { outboxStore, type QueuedAlert } from '@/lib/alerts/outbox';
+import type { EmergencyContact } from '@/lib/contacts';
+import { INITIAL_INCIDENT_STATE, incidentStore, moveIncident } from '@/lib/incident';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@/lib/notifications', () => ({ notifyNow: jest.fn() }));
+
+function contact(id: string, phone: string): EmergencyContact {
+  return { id, name: id, phone, icon: 'person.fill', relation: 'Friend', group: null, alerts: ['sos'], deviceContactId: null };
+}
+
+const ASHA = contact('asha', '+919876500001');
+const RAVI = contact('ravi', '+919876500002');
+
+function queued(alert: Partial<QueuedAlert> = {}): QueuedAlert {
+  return {
+    id: 'out-1',
+    topic: 'sos',
+    incidentId: 'inc-earlier',
+    recipients: [ASHA, RAVI],
+    message: 'Help',
+    queuedAt: 0,
+    ...alert,
+  };
+}
+
+/** Plays the SMS composer: it needs the user, so only the foreground uses it. */
+function createComposer(options: Parameters<typeof createMockTransport>[0] = {}) {
+  const composer = createMockTransport(options);
+  composer.name = 'Composer';
+  composer.interactive = true;
+  return composer;
+}
+
+/** The outbox flushes itself whenever it changes in the foreground; tests seed it in the background. */
+async function flushInForeground() {
+  AppState.currentState = 'active';
+  try {
+    await flushOutbox();
+  } finally {
+    AppState.currentState = 'background';
+  }
+}
+
+beforeAll(async () => {
+  await outboxStore.hydrate();
+});
+
+beforeEach(() => {
+  AppState.currentState = 'background';
+  outboxStore.setState([]);
+  incidentStore.setState(INITIAL_INCIDENT_STATE);
+  dispatchStore.setState(null);
+});
+
+afterEach(() => {
+  setAlertTransports(null);
+});
+
+describe('dispatchAlert', () => {
+  it('hands recipients a transport failed for to the next one', async () => {
+    const gateway = createMockTransport({ failFor: [RAVI.phone] });
+    const composer = createComposer();
+    setAlertTransports([gateway, composer]);
+
+    const report = await dispatchAlert([ASHA, RAVI], 'Help');
+
+    expect(gateway.sent.map((sent) => sent.phone)).toEqual([ASHA.phone]);
+    expect(composer.sent.map((sent) => sent.phone)).toEqual([RAVI.phone]);
+    expect(report.results.map((result) => [result.contactId, result.status, result.transport])).toEqual([
+      ['asha', 'sent', 'Mock'],
+      ['ravi', 'sent', 'Composer'],
+    ]);
+    expect(dispatchStore.getState()).toBe(report);
+  });
+
+  it('queues what no background transport could send, under the open incident', async () => {
+    setAlertTransports([createMockTransport({ failFor: [RAVI.phone] }), createComposer()]);
+    moveIncident('active', 'Shake pattern detected');
+    const incidentId = incidentStore.getState().incident!.id;
+
+    const report = await dispatchAlert([ASHA, RAVI], 'Help', { background: true, topic: 'tracking' });
+
+    expect(report.incidentId).toBe(incidentId);
+    expect(report.results.map((result) => result.status)).toEqual(['sent', 'queued']);
+    expect(outboxStore.getState()).toEqual([
+      expect.objectContaining({ topic: 'tracking', incidentId, recipients: [RAVI], message: 'Help' }),
+    ]);
+  });
+});
+
+describe('flushOutbox', () => {
+  it('sends queued alerts under the incident they were written for', async () => {
+    const composer = createComposer();
+    setAlertTransports([composer]);
+    outboxStore.setState([queued()]);
+
+    await flushInForeground();
+
+    expect(composer.sent.map((sent) => sent.phone)).toEqual([ASHA.phone, RAVI.phone]);
+    expect(dispatchStore.getState()?.incidentId).toBe('inc-earlier');
+    expect(outboxStore.getState()).toEqual([]);
+  });
+
+  it('keeps recipients that still failed queued', async () => {
+    setAlertTransports([createComposer({ failFor: [RAVI.phone] })]);
+    outboxStore.setState([queued(), queued({ id: 'out-2', topic: 'tracking' })]);
+
+    await flushInForeground();
+
+    // The second alert waits too: the next foreground tries again from the top.
+    expect(outboxStore.getState()).toEqual([queued({ recipients: [RAVI] }), queued({ id: 'out-2', topic: 'tracking' })]);
+  });
+
+  it('keeps the alert when sending throws', async () => {
+    const composer = createComposer();
+    composer.send = () => Promise.reject(new Error('Composer crashed'));
+    setAlertTransports([composer]);
+    outboxStore.setState([queued()]);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await flushInForeground();
+
+    expect(outboxStore.getState()).toEqual([queued()]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,154 @@
+import { Alert, AppState, type AppStateStatus } from 'react-native';
+
+import { dialNumber } from '@/lib/calls';
+import type { EmergencyContact } from '@/lib/contacts';
+import {
+  advanceEscalation,
+  buildEscalationSteps,
+  escalationStore,
+  INITIAL_ESCALATION,
+  startEscalation,
+  stopEscalation,
+  type EscalationState,
+} from '@/lib/escalation';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@/lib/calls', () => ({ dialNumber: jest.fn() }));
+
+function contact(id: string, alerts: EmergencyContact['alerts'] = ['sos', 'calls']): EmergencyContact {
+  const phone = `+91987650${id.length}`;
+  return { id, name: id, phone, icon: 'person.fill', relation: 'Friend', group: null, alerts, deviceContactId: null };
+}
+
+const POLICE: EmergencyContact = { ...contact('police', []), phone: '100', relation: 'Official' };
+const AMBULANCE: EmergencyContact = { ...contact('ambulance', []), phone: '108', relation: 'Medical' };
+const CONTACTS = [POLICE, AMBULANCE, contact('asha'), contact('ravi', ['sos']), contact('meera')];
+
+const idsOf = (state: EscalationState) => state.steps.map((step) => [step.contact.id, step.status]);
+
+describe('buildEscalationSteps', () => {
+  it('calls personal contacts taking calls in priority order, then the chosen service', () => {
+    expect(buildEscalationSteps(CONTACTS, 'ambulance').map((step) => step.contact.id)).toEqual(['asha', 'meera', 'ambulance']);
+  });
+
+  it('falls back to the first service when the chosen one is gone', () => {
+    expect(buildEscalationSteps(CONTACTS, 'women').map((step) => step.contact.id)).toEqual(['asha', 'meera', 'police']);
+  });
+
+  it('queues every step, none started', () => {
+    const steps = buildEscalationSteps(CONTACTS, 'police');
+    expect(steps.every((step) => step.status === 'queued' && step.startedAt === null)).toBe(true);
+  });
+});
+
+describe('advanceEscalation', () => {
+  const running: EscalationState = {
+    status: 'running',
+    steps: buildEscalationSteps(CONTACTS, 'police').map((step, i) =>
+      i === 0 ? { ...step, status: 'calling', startedAt: 0 } : step
+    ),
+    current: 0,
+    deadline: 30_000,
+    timeoutMs: 30_000,
+  };
+
+  it('closes the current call and starts the next with a fresh deadline', () => {
+    const state = advanceEscalation(running, 'unanswered', 40_000);
+    expect(idsOf(state)).toEqual([
+      ['asha', 'unanswered'],
+      ['meera', 'calling'],
+      ['police', 'queued'],
+    ]);
+    expect(state).toMatchObject({ status: 'running', current: 1, deadline: 70_000 });
+    expect(state.steps[1].startedAt).toBe(40_000);
+  });
+
+  it('runs out after the last step', () => {
+    const state = [1000, 2000, 3000].reduce(
+      (current, at, i) => advanceEscalation(current, i === 1 ? 'failed' : 'unanswered', at),
+      running
+    );
+    expect(idsOf(state)).toEqual([
+      ['asha', 'unanswered'],
+      ['meera', 'failed'],
+      ['police', 'unanswered'],
+    ]);
+    expect(state).toMatchObject({ status: 'exhausted', deadline: null });
+  });
+
+  it.each<EscalationState['status']>(['idle', 'confirmed', 'exhausted', 'stopped'])('leaves a %s chain alone', (status) => {
+    const state = { ...running, status };
+    expect(advanceEscalation(state, 'unanswered')).toBe(state);
+  });
+});
+
+describe('call chain', () => {
+  let setAppState: (next: AppStateStatus) => void;
+
+  beforeAll(() => {
+    const [, listener] = jest.mocked(AppState.addEventListener).mock.calls[0];
+    setAppState = (next) => {
+      AppState.currentState = next;
+      listener(next);
+    };
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    jest.mocked(dialNumber).mockReset().mockResolvedValue(true);
+    AppState.currentState = 'active';
+    escalationStore.setState(INITIAL_ESCALATION);
+  });
+
+  afterEach(() => {
+    stopEscalation();
+    jest.useRealTimers();
+  });
+
+  it('moves on when a call goes unconfirmed in the foreground', async () => {
+    startEscalation(CONTACTS, { timeoutSec: 30, finalContactId: 'police' });
+    await jest.advanceTimersByTimeAsync(30_000);
+    expect(escalationStore.getState().current).toBe(1);
+    expect(dialNumber).toHaveBeenLastCalledWith(CONTACTS[4].phone);
+  });
+
+  it('holds the chain while the app is in the background for a call', async () => {
+    startEscalation(CONTACTS, { timeoutSec: 30, finalContactId: 'police' });
+    await jest.advanceTimersByTimeAsync(0);
+    setAppState('background');
+    await jest.advanceTimersByTimeAsync(5 * 60_000);
+    expect(escalationStore.getState()).toMatchObject({ status: 'running', current: 0, deadline: null });
+    expect(dialNumber).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds the chain when the dialer is already up as it reports back', async () => {
+    // The change event already went by, before the chain was waiting on this call.
+    jest.mocked(dialNumber).mockImplementation(async () => {
+      AppState.currentState = 'background';
+      return true;
+    });
+    startEscalation(CONTACTS, { timeoutSec: 30, finalContactId: 'police' });
+    await jest.advanceTimersByTimeAsync(5 * 60_000);
+    expect(escalationStore.getState()).toMatchObject({ current: 0, deadline: null });
+  });
+
+  it('asks how the call went once back, and calls the next only if unanswered', async () => {
+    const alert = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    startEscalation(CONTACTS, { timeoutSec: 30, finalContactId: 'police' });
+    await jest.advanceTimersByTimeAsync(0);
+    setAppState('background');
+    setAppState('active');
+
+    const [title, , buttons] = alert.mock.calls[0];
+    expect(title).toBe('Was the call answered?');
+    buttons!.find((button) => button.text === 'No, call the next')!.onPress!();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(idsOf(escalationStore.getState()).slice(0, 2)).toEqual([
+      ['asha', 'unanswered'],
+      ['meera', 'calling'],
+    ]);
+    alert.mockRestore();
+  });
+});
@@ -0,0 +1,36 @@
+import { distanceMeters, isWithinRadius } from '@/lib/geo';
+import type { Coordinates } from '@/lib/location-links';
+
+const HOME: Coordinates = { latitude: 28.6139, longitude: 77.209 };
+const RADIUS_M = 75;
+
+/** A point `northM` metres due north of home; a degree of latitude is about 111.2 km. */
+const northOfHome = (northM: number): Coordinates => ({ latitude: HOME.latitude + northM / 111_195, longitude: HOME.longitude });
+
+describe('distanceMeters', () => {
+  it('measures short distances to within a metre', () => {
+    expect(distanceMeters(HOME, northOfHome(100))).toBeCloseTo(100, 0);
+  });
+});
+
+describe('isWithinRadius', () => {
+  it.each([
+    [0, 10],
+    [50, 20],
+    [70, null],
+  ])('counts a fix %i m away, accurate to %p m', (northM, accuracy) => {
+    expect(isWithinRadius(northOfHome(northM), accuracy, HOME, RADIUS_M)).toBe(true);
+  });
+
+  it.each([
+    // Outside however good the fix.
+    [80, 5],
+    // Inside, but the fix could just as well be outside.
+    [60, 30],
+    [0, 100],
+    // A poor fix must not stretch the radius to twice its size.
+    [140, 75],
+  ])('does not count a fix %i m away, accurate to %p m', (northM, accuracy) => {
+    expect(isWithinRadius(northOfHome(northM), accuracy, HOME, RADIUS_M)).toBe(false);
+  });
+});
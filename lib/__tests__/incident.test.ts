@@ -0,0 +1,153 @@
+import {
+  appendLog,
+  canTransition,
+  INITIAL_INCIDENT_STATE,
+  isIncidentOpen,
+  isUnderDuress,
+  transition,
+  type IncidentPhase,
+  type IncidentState,
+} from '@/lib/incident';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const PHASES: IncidentPhase[] = ['idle', 'arming', 'countdown', 'active', 'resolved', 'cancelled'];
+
+/** Every move the lifecycle allows; anything else must leave the state alone. */
+const LEGAL: [IncidentPhase, IncidentPhase][] = [
+  ['idle', 'arming'],
+  ['idle', 'countdown'],
+  ['idle', 'active'],
+  ['arming', 'idle'],
+  ['arming', 'countdown'],
+  ['arming', 'active'],
+  ['countdown', 'active'],
+  ['countdown', 'cancelled'],
+  ['active', 'resolved'],
+  ['active', 'cancelled'],
+  ['resolved', 'arming'],
+  ['resolved', 'countdown'],
+  ['resolved', 'active'],
+  ['cancelled', 'arming'],
+  ['cancelled', 'countdown'],
+  ['cancelled', 'active'],
+];
+
+const isLegal = (from: IncidentPhase, to: IncidentPhase) => LEGAL.some(([a, b]) => a === from && b === to);
+
+const ILLEGAL = PHASES.flatMap((from) =>
+  PHASES.filter((to) => !isLegal(from, to)).map((to): [IncidentPhase, IncidentPhase] => [from, to])
+);
+
+/** Walks from idle through `path`, one second apart, asserting each step is taken. */
+function walk(path: IncidentPhase[], start: IncidentState = INITIAL_INCIDENT_STATE) {
+  return path.reduce((state, to, i) => {
+    const next = transition(state, to, `to ${to}`, 1000 * (i + 1));
+    expect(next.phase).toBe(to);
+    return next;
+  }, start);
+}
+
+/** Some state in `phase`, reached the usual way. */
+function stateIn(phase: IncidentPhase): IncidentState {
+  const paths: Record<IncidentPhase, IncidentPhase[]> = {
+    idle: [],
+    arming: ['arming'],
+    countdown: ['arming', 'countdown'],
+    active: ['arming', 'countdown', 'active'],
+    resolved: ['active', 'resolved'],
+    cancelled: ['countdown', 'cancelled'],
+  };
+  return walk(paths[phase]);
+}
+
+describe('canTransition', () => {
+  it.each(LEGAL)('allows %s → %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  it.each(ILLEGAL)('refuses %s → %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+});
+
+describe('transition', () => {
+  it.each(ILLEGAL)('leaves the state untouched on %s → %s', (from, to) => {
+    const state = stateIn(from);
+    expect(transition(state, to, 'not allowed', 99_000)).toBe(state);
+  });
+
+  it('starts an incident when leaving idle, stamped with the time and reason', () => {
+    const state = transition(INITIAL_INCIDENT_STATE, 'arming', 'SOS button pressed', 5000);
+    expect(state.phase).toBe('arming');
+    expect(state.incident).toMatchObject({
+      startedAt: 5000,
+      endedAt: null,
+      underDuress: false,
+      log: [],
+      transitions: [{ from: 'idle', to: 'arming', at: 5000, reason: 'SOS button pressed' }],
+    });
+  });
+
+  it('records every step of one incident in order', () => {
+    const state = walk(['arming', 'countdown', 'active', 'resolved']);
+    expect(state.incident!.transitions.map((step) => [step.from, step.to, step.at])).toEqual([
+      ['idle', 'arming', 1000],
+      ['arming', 'countdown', 2000],
+      ['countdown', 'active', 3000],
+      ['active', 'resolved', 4000],
+    ]);
+    expect(state.incident!.endedAt).toBe(4000);
+  });
+
+  it('keeps an aborted hold as a finished incident back in idle', () => {
+    const armed = stateIn('arming');
+    const state = transition(armed, 'idle', 'Released early', 7000);
+    expect(state.phase).toBe('idle');
+    expect(state.incident!.id).toBe(armed.incident!.id);
+    expect(state.incident!.endedAt).toBe(7000);
+    expect(state.incident!.transitions.at(-1)).toMatchObject({ from: 'arming', to: 'idle', reason: 'Released early' });
+  });
+
+  it.each<IncidentPhase>(['idle', 'resolved', 'cancelled'])('starts a fresh incident after %s', (phase) => {
+    const before = stateIn(phase);
+    const state = transition(before, 'active', 'Shake pattern detected', 50_000);
+    expect(state.incident!.id).not.toBe(before.incident?.id);
+    expect(state.incident!.startedAt).toBe(50_000);
+    expect(state.incident!.transitions).toHaveLength(1);
+  });
+
+  it('lets hands-free triggers skip arming and the cancel window', () => {
+    expect(walk(['active']).incident!.transitions[0]).toMatchObject({ from: 'idle', to: 'active' });
+    expect(walk(['countdown', 'active']).phase).toBe('active');
+  });
+});
+
+describe('appendLog', () => {
+  it('adds to the current incident', () => {
+    const state = appendLog(stateIn('active'), 'dispatch', 'Sent to 2 contacts', 9000);
+    expect(state.incident!.log).toEqual([{ at: 9000, kind: 'dispatch', message: 'Sent to 2 contacts' }]);
+  });
+
+  it('ignores entries with no incident under way', () => {
+    expect(appendLog(INITIAL_INCIDENT_STATE, 'dispatch', 'Sent')).toBe(INITIAL_INCIDENT_STATE);
+    const aborted = transition(stateIn('arming'), 'idle', 'Released early');
+    expect(appendLog(aborted, 'dispatch', 'Sent')).toBe(aborted);
+  });
+});
+
+describe('phase helpers', () => {
+  it.each(PHASES)('treats %s as open only during countdown or active', (phase) => {
+    expect(isIncidentOpen(phase)).toBe(phase === 'countdown' || phase === 'active');
+  });
+
+  it('reports duress only while the incident is still active', () => {
+    const active = stateIn('active');
+    const duress = { ...active, incident: { ...active.incident!, underDuress: true } };
+    expect(isUnderDuress(active)).toBe(false);
+    expect(isUnderDuress(duress)).toBe(true);
+    expect(isUnderDuress(transition(duress, 'resolved', 'Cancel PIN'))).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  buildLocationText,
+  buildMapLink,
+  encodePlusCode,
+  formatDecimal,
+  formatDms,
+  nativeMapLink,
+} from '@/lib/location-links';
+
+const delhi = { latitude: 28.6139, longitude: 77.209 };
+const sydney = { latitude: -33.8688, longitude: 151.2093 };
+const origin = { latitude: 0, longitude: 0 };
+
+describe('buildMapLink', () => {
+  it('builds a Google Maps search link', () => {
+    expect(buildMapLink('google', delhi)).toBe('https://www.google.com/maps/search/?api=1&query=28.613900%2C77.209000');
+  });
+
+  it('builds an Apple Maps link with an encoded label', () => {
+    expect(buildMapLink('apple', delhi)).toBe('https://maps.apple.com/?ll=28.613900,77.209000');
+    expect(buildMapLink('apple', delhi, 'Home & Work')).toBe(
+      'https://maps.apple.com/?ll=28.613900,77.209000&q=Home%20%26%20Work'
+    );
+  });
+
+  it('builds an OpenStreetMap link with a marker and zoom', () => {
+    expect(buildMapLink('osm', sydney)).toBe(
+      'https://www.openstreetmap.org/?mlat=-33.868800&mlon=151.209300#map=17/-33.868800/151.209300'
+    );
+  });
+
+  it('builds a geo: URI with an optional label', () => {
+    expect(buildMapLink('geo', sydney)).toBe('geo:-33.868800,151.209300?q=-33.868800,151.209300');
+    expect(buildMapLink('geo', origin, 'My location')).toBe('geo:0.000000,0.000000?q=0.000000,0.000000(My%20location)');
+  });
+
+  it('keeps longitudes on the antimeridian as given', () => {
+    expect(buildMapLink('google', { latitude: -16.5, longitude: 180 })).toBe(
+      'https://www.google.com/maps/search/?api=1&query=-16.500000%2C180.000000'
+    );
+    expect(buildMapLink('osm', { latitude: 0, longitude: -180 })).toBe(
+      'https://www.openstreetmap.org/?mlat=0.000000&mlon=-180.000000#map=17/0.000000/-180.000000'
+    );
+  });
+
+  it('opens the platform maps app', () => {
+    // jest-expo runs as iOS by default.
+    expect(nativeMapLink(delhi, 'Home')).toBe(buildMapLink('apple', delhi, 'Home'));
+  });
+});
+
+describe('formatDecimal', () => {
+  it('prints six decimals by default', () => {
+    expect(formatDecimal(delhi)).toBe('28.613900, 77.209000');
+    expect(formatDecimal(sydney)).toBe('-33.868800, 151.209300');
+    expect(formatDecimal(origin)).toBe('0.000000, 0.000000');
+  });
+
+  it('accepts a precision', () => {
+    expect(formatDecimal(sydney, 2)).toBe('-33.87, 151.21');
+  });
+});
+
+describe('formatDms', () => {
+  it('uses hemisphere letters instead of signs', () => {
+    expect(formatDms(delhi)).toBe(`28°36'50.0"N 77°12'32.4"E`);
+    expect(formatDms(sydney)).toBe(`33°52'7.7"S 151°12'33.5"E`);
+    expect(formatDms({ latitude: 51.5, longitude: -0.1276 })).toBe(`51°30'0.0"N 0°7'39.4"W`);
+  });
+
+  it('treats zero as north and east', () => {
+    expect(formatDms(origin)).toBe(`0°0'0.0"N 0°0'0.0"E`);
+  });
+
+  it('carries rounded seconds into minutes and degrees', () => {
+    expect(formatDms({ latitude: 10.99999999, longitude: -179.99999999 })).toBe(`11°0'0.0"N 180°0'0.0"W`);
+  });
+});
+
+describe('encodePlusCode', () => {
+  it('matches the Open Location Code reference encodings', () => {
+    expect(encodePlusCode({ latitude: 47.0000625, longitude: 8.0000625 })).toBe('8FVC2222+22');
+    expect(encodePlusCode({ latitude: 20.3700625, longitude: 2.7821875 })).toBe('7FG49QCJ+2V');
+    expect(encodePlusCode({ latitude: -41.2730625, longitude: 174.7859375 })).toBe('4VCPPQGP+Q9');
+  });
+
+  it('encodes real places', () => {
+    expect(encodePlusCode(delhi)).toBe('7JWVJ675+HJ');
+    expect(encodePlusCode(sydney)).toBe('4RRH46J5+FP');
+    expect(encodePlusCode({ latitude: 51.5, longitude: -0.1276 })).toBe('9C3XGV2C+2X');
+  });
+
+  it('encodes the origin', () => {
+    expect(encodePlusCode(origin)).toBe('6FG22222+22');
+  });
+
+  it('wraps the antimeridian so 180 and -180 are the same place', () => {
+    expect(encodePlusCode({ latitude: 0, longitude: 180 })).toBe('62G22222+22');
+    expect(encodePlusCode({ latitude: 0, longitude: -180 })).toBe('62G22222+22');
+    expect(encodePlusCode({ latitude: -0.5, longitude: -179.999 })).toBe('62F2G222+2C');
+  });
+
+  it('clamps the poles into the grid', () => {
+    expect(encodePlusCode({ latitude: 90, longitude: 1 })).toBe('CFX3X2X2+X2');
+    expect(encodePlusCode({ latitude: -90, longitude: -180 })).toBe('22222222+22');
+  });
+});
+
+describe('buildLocationText', () => {
+  it('includes the link and every plain-text fallback', () => {
+    expect(buildLocationText(sydney, 'Circular Quay')).toBe(
+      [
+        'Near: Circular Quay',
+        'Map: https://www.google.com/maps/search/?api=1&query=-33.868800%2C151.209300',
+        `Coordinates: -33.868800, 151.209300 (33°52'7.7"S 151°12'33.5"E)`,
+        'Plus Code: 4RRH46J5+FP',
+      ].join('\n')
+    );
+  });
+
+  it('leaves out the address when there is none', () => {
+    expect(buildLocationText(origin).split('\n')[0]).toBe(
+      'Map: https://www.google.com/maps/search/?api=1&query=0.000000%2C0.000000'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import jog from '@/lib/__tests__/fixtures/jog.json';
+import shakeFirm from '@/lib/__tests__/fixtures/shake-firm.json';
+import shakeHard from '@/lib/__tests__/fixtures/shake-hard.json';
+import shakeLight from '@/lib/__tests__/fixtures/shake-light.json';
+import volumeAdjust from '@/lib/__tests__/fixtures/volume-adjust.json';
+import volumeSequence from '@/lib/__tests__/fixtures/volume-sequence.json';
+import walk from '@/lib/__tests__/fixtures/walk.json';
+import { createReplaySource } from '@/lib/triggers/replay';
+import { createShakeDetector, replayMotionTrace, SHAKE_PROFILES, type ShakeSensitivity } from '@/lib/triggers/shake';
+import type { MotionSample, VolumePress } from '@/lib/triggers/types';
+import { replayVolumeTrace } from '@/lib/triggers/volume-keys';
+
+// Accelerometer traces at the 50 ms rate the app samples at, phone held
+// upright. The shakes are side to side at about 3.5 Hz, peaking near 3 g
+// (hard), 2.2 g (firm) and 1.7 g (light) on top of gravity. The walk and jog
+// are 12 s with the phone in a pocket; the jog's footfalls reach 2.35 g.
+const SHAKES: Record<string, MotionSample[]> = { hard: shakeHard, firm: shakeFirm, light: shakeLight };
+const GAITS: Record<string, MotionSample[]> = { walk, jog };
+
+const SENSITIVITIES = Object.keys(SHAKE_PROFILES) as ShakeSensitivity[];
+
+/** Which shakes each sensitivity must answer to; the settings label them Hard, Firm and Light. */
+const FIRES_ON: Record<ShakeSensitivity, string[]> = {
+  low: ['hard'],
+  medium: ['hard', 'firm'],
+  high: ['hard', 'firm', 'light'],
+};
+
+describe('shake detection', () => {
+  describe.each(SENSITIVITIES)('at %s sensitivity', (sensitivity) => {
+    it.each(Object.keys(SHAKES))('answers a %s shake only when strong enough', (shake) => {
+      expect(replayMotionTrace(SHAKES[shake], sensitivity)).toHaveLength(FIRES_ON[sensitivity].includes(shake) ? 1 : 0);
+    });
+
+    it.each(Object.keys(GAITS))('never fires during a %s', (gait) => {
+      expect(replayMotionTrace(GAITS[gait], sensitivity)).toEqual([]);
+    });
+  });
+
+  it('fires while the shaking is still going on', () => {
+    const [firedAt] = replayMotionTrace(shakeHard, 'low');
+    expect(firedAt).toBeGreaterThan(shakeHard[0].at + 1000);
+    expect(firedAt).toBeLessThan(shakeHard[0].at + 3500);
+  });
+
+  it('fires once for one long bout of shaking', () => {
+    const second = shakeHard.map((sample) => ({ ...sample, at: sample.at + 2000 }));
+    const bout = [...shakeHard.slice(0, 60), ...second.slice(20, 60)];
+    expect(replayMotionTrace(bout, 'high')).toHaveLength(1);
+  });
+
+  it('does not count gravity at rest as shaking', () => {
+    const still = Array.from({ length: 200 }, (_, i) => ({ x: 0, y: -1, z: 0, at: i * 50 }));
+    expect(replayMotionTrace(still, 'high')).toEqual([]);
+  });
+});
+
+describe('volume key detection', () => {
+  it('fires on five alternating presses', () => {
+    expect(replayVolumeTrace(volumeSequence as VolumePress[])).toEqual([volumeSequence[4].at]);
+  });
+
+  it('ignores ordinary volume changes and slow alternating presses', () => {
+    expect(replayVolumeTrace(volumeAdjust as VolumePress[])).toEqual([]);
+  });
+});
+
+describe('createReplaySource', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('plays a trace back in real time, shifted to start now', () => {
+    const events: VolumePress[] = [];
+    createReplaySource(volumeSequence as VolumePress[]).start((press) => events.push(press));
+    jest.advanceTimersByTime(1000);
+    expect(events.map((press) => press.at)).toEqual([1_000_000, 1_000_380, 1_000_790]);
+    jest.advanceTimersByTime(1000);
+    expect(events.map((press) => press.direction)).toEqual(['up', 'down', 'up', 'down', 'up']);
+  });
+
+  it('stops delivering once stopped', () => {
+    const events: VolumePress[] = [];
+    const stop = createReplaySource(volumeSequence as VolumePress[]).start((press) => events.push(press));
+    jest.advanceTimersByTime(500);
+    stop();
+    jest.advanceTimersByTime(5000);
+    expect(events).toHaveLength(2);
+  });
+
+  it('drives a detector end to end', () => {
+    const detect = createShakeDetector(SHAKE_PROFILES.medium);
+    const fired: number[] = [];
+    createReplaySource(shakeFirm).start((sample) => {
+      if (detect(sample)) fired.push(sample.at);
+    });
+    jest.runAllTimers();
+    expect(fired).toHaveLength(1);
+  });
+});
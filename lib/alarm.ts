@@ -0,0 +1,20 @@
+import { createAudioPlayer, setAudioModeAsync, type AudioPlayer } from 'expo-audio';
+
+let player: AudioPlayer | null = null;
+
+/** Plays the siren on a loop at full volume, even with the ringer switched off. */
+export async function startAlarm() {
+  if (player) return;
+  await setAudioModeAsync({ playsInSilentMode: true, shouldPlayInBackground: true });
+  player = createAudioPlayer(require('@/assets/sounds/alarm.wav'));
+  player.loop = true;
+  player.volume = 1;
+  player.play();
+}
+
+export function stopAlarm() {
+  if (!player) return;
+  player.pause();
+  player.remove();
+  player = null;
+}
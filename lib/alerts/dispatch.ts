@@ -0,0 +1,172 @@
+import { AppState } from 'react-native';
+
+import { createHttpGatewayTransport } from '@/lib/alerts/http-gateway';
+import { outboxStore, peekQueuedAlert, queueAlert, settleQueuedAlert } from '@/lib/alerts/outbox';
+import { smsComposerTransport } from '@/lib/alerts/sms-composer';
+import type { AlertTransport, DispatchReport, RecipientResult } from '@/lib/alerts/types';
+import type { EmergencyContact } from '@/lib/contacts';
+import { createId } from '@/lib/id';
+import { incidentStore, isIncidentOpen, isUnderDuress, logIncident } from '@/lib/incident';
+import { settingsStore } from '@/lib/settings';
+import { createStore } from '@/lib/store';
+
+let overrideTransports: AlertTransport[] | null = null;
+
+/** Replaces the transport chain, e.g. with a mock transport. Pass `null` to restore defaults. */
+export function setAlertTransports(transports: AlertTransport[] | null) {
+  overrideTransports = transports;
+}
+
+/** The background gateway comes first when configured; the composer is the fallback. */
+function getTransports(): AlertTransport[] {
+  if (overrideTransports) return overrideTransports;
+  const { smsGatewayUrl } = settingsStore.getState();
+  return smsGatewayUrl
+    ? [createHttpGatewayTransport(smsGatewayUrl), smsComposerTransport]
+    : [smsComposerTransport];
+}
+
+/** Whether unattended messages (e.g. periodic location updates) can be sent at all. */
+export function hasBackgroundTransport() {
+  return getTransports().some((transport) => !transport.interactive);
+}
+
+/** The most recent dispatch, updated as each transport reports back. */
+export const dispatchStore = createStore<DispatchReport | null>(null);
+
+export interface DispatchOptions {
+  /**
+   * Only use transports that need no user interaction, for unattended updates.
+   * Whatever they cannot deliver is queued for the composer instead of dropped.
+   */
+  background?: boolean;
+  /** Outbox topic; a queued message replaces an older one with the same topic. */
+  topic?: string;
+  /** The incident the message belongs to, when it is sent later than it was written. */
+  incidentId?: string | null;
+}
+
+/**
+ * Sends `message` to every recipient. Recipients a transport fails for are
+ * handed to the next transport in the chain; a cancelled composer is final.
+ */
+export async function dispatchAlert(
+  recipients: EmergencyContact[],
+  message: string,
+  options: DispatchOptions = {}
+): Promise<DispatchReport> {
+  const { phase, incident } = incidentStore.getState();
+  // A finished incident stays in the store; later messages are not part of it.
+  const openIncidentId = incident && isIncidentOpen(phase) ? incident.id : null;
+  let report: DispatchReport = {
+    id: createId('dsp'),
+    incidentId: options.incidentId !== undefined ? options.incidentId : openIncidentId,
+    message,
+    startedAt: Date.now(),
+    finishedAt: null,
+    results: recipients.map((contact) => ({
+      contactId: contact.id,
+      name: contact.name,
+      phone: contact.phone,
+      status: 'pending',
+      transport: null,
+    })),
+  };
+  dispatchStore.setState(report);
+
+  const merge = (updates: RecipientResult[]) => {
+    report = {
+      ...report,
+      results: report.results.map(
+        (result) => updates.find((update) => update.contactId === result.contactId) ?? result
+      ),
+    };
+    dispatchStore.setState(report);
+  };
+
+  let remaining = recipients;
+  const transports = getTransports().filter((transport) => !options.background || !transport.interactive);
+  for (const transport of transports) {
+    if (remaining.length === 0) break;
+    if (!(await transport.isAvailable())) continue;
+
+    const results = await transport.send(remaining, message);
+    merge(results);
+    const failed = new Set(results.filter((r) => r.status === 'failed').map((r) => r.contactId));
+    remaining = remaining.filter((contact) => failed.has(contact.id));
+  }
+
+  if (options.background) {
+    const unsent = new Set(
+      report.results.filter((r) => r.status === 'pending' || r.status === 'failed').map((r) => r.contactId)
+    );
+    if (unsent.size > 0) {
+      merge(
+        report.results
+          .filter((result) => unsent.has(result.contactId))
+          .map((result) => ({ ...result, status: 'queued', error: result.error ?? 'No background SMS gateway' }))
+      );
+      await queueAlert(
+        options.topic ?? report.id,
+        recipients.filter((contact) => unsent.has(contact.id)),
+        message,
+        report.incidentId
+      );
+    }
+  }
+
+  merge(
+    report.results
+      .filter((result) => result.status === 'pending')
+      .map((result) => ({ ...result, status: 'failed', error: 'No SMS transport available' }))
+  );
+  report = { ...report, finishedAt: Date.now() };
+  dispatchStore.setState(report);
+
+  const delivered = report.results.filter((r) => r.status === 'sent' || r.status === 'unknown').length;
+  const queued = report.results.filter((r) => r.status === 'queued').length;
+  logIncident(
+    'dispatch',
+    queued > 0
+      ? `Alert sent to ${delivered} of ${report.results.length} contacts; ${queued} could not be sent in the background and wait for the app to be opened`
+      : `Alert sent to ${delivered} of ${report.results.length} contacts`
+  );
+
+  return report;
+}
+
+let flushing = false;
+
+/**
+ * Sends queued alerts through the full chain, composer included, one at a
+ * time. Only runs in the foreground, and never under duress, where a
+ * composer popping up would give the alert away. An alert leaves the outbox
+ * once sent; recipients that still failed stay queued for the next time the
+ * app comes to the foreground.
+ */
+export async function flushOutbox() {
+  if (flushing || !outboxStore.isHydrated() || AppState.currentState !== 'active') return;
+  if (isUnderDuress(incidentStore.getState())) return;
+  flushing = true;
+  try {
+    let alert;
+    while ((alert = peekQueuedAlert())) {
+      const report = await dispatchAlert(alert.recipients, alert.message, { incidentId: alert.incidentId });
+      const unsentIds = report.results.filter((result) => result.status === 'failed').map((result) => result.contactId);
+      settleQueuedAlert(alert.id, unsentIds);
+      if (unsentIds.length > 0) break;
+    }
+  } catch (error) {
+    console.warn('Failed to send queued alerts:', error);
+  } finally {
+    flushing = false;
+  }
+}
+
+outboxStore.subscribe(() => {
+  flushOutbox();
+});
+
+AppState.addEventListener('change', (next) => {
+  if (next === 'active') flushOutbox();
+});
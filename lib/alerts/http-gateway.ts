@@ -0,0 +1,48 @@
+import type { AlertTransport, RecipientResult } from '@/lib/alerts/types';
+import { fetchWithTimeout } from '@/lib/http';
+
+/** A hung gateway must not hold up the rest of the chain. */
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/**
+ * Sends SMS through an HTTP gateway without user interaction.
+ *
+ * Each recipient is posted separately as `{ to, body }` so the gateway's
+ * response maps to exactly one contact.
+ */
+export function createHttpGatewayTransport(endpoint: string): AlertTransport {
+  const transport: AlertTransport = {
+    name: 'SMS gateway',
+    interactive: false,
+    isAvailable: async () => /^https?:\/\//.test(endpoint),
+    send: (recipients, message) =>
+      Promise.all(
+        recipients.map(async (contact): Promise<RecipientResult> => {
+          const base = {
+            contactId: contact.id,
+            name: contact.name,
+            phone: contact.phone,
+            transport: transport.name,
+          };
+          try {
+            const response = await fetchWithTimeout(
+              endpoint,
+              {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ to: contact.phone, body: message }),
+              },
+              REQUEST_TIMEOUT_MS
+            );
+            if (!response.ok) {
+              return { ...base, status: 'failed', error: `Gateway responded ${response.status}` };
+            }
+            return { ...base, status: 'sent' };
+          } catch (e) {
+            return { ...base, status: 'failed', error: e instanceof Error ? e.message : String(e) };
+          }
+        })
+      ),
+  };
+  return transport;
+}
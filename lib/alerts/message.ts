@@ -0,0 +1,27 @@
+import { buildLocationText, type Coordinates } from '@/lib/location-links';
+
+export interface AlertLocation extends Coordinates {
+  address?: string | null;
+}
+
+export function buildSosMessage(location: AlertLocation | null, context: string[] = []) {
+  const lines = ['🚨 SOS! I need help urgently.', ...context];
+  if (location) {
+    lines.push(buildLocationText(location, location.address));
+  } else {
+    lines.push('My location could not be determined. Please call me.');
+  }
+  lines.push('Sent from SosDost');
+  return lines.join('\n');
+}
+
+/** Sent when the alert is "cancelled" with the duress PIN, which the person who forced it never sees. */
+export function buildDuressMessage(location: AlertLocation | null) {
+  const lines = [
+    '⚠️ My SOS was cancelled UNDER DURESS. I am NOT safe.',
+    'Do not call or text me. Live location updates will continue.',
+  ];
+  if (location) lines.push(buildLocationText(location, location.address));
+  lines.push('Sent from SosDost');
+  return lines.join('\n');
+}
@@ -0,0 +1,46 @@
+import type { AlertTransport } from '@/lib/alerts/types';
+
+export interface SentMessage {
+  phone: string;
+  message: string;
+  at: number;
+}
+
+export interface MockTransport extends AlertTransport {
+  sent: SentMessage[];
+}
+
+/**
+ * An offline transport for development and tests. Numbers listed in
+ * `failFor` are reported as failed; everything else is recorded in `sent`.
+ */
+export function createMockTransport(options: { failFor?: string[]; latencyMs?: number } = {}): MockTransport {
+  const { failFor = [], latencyMs = 0 } = options;
+  const sent: SentMessage[] = [];
+
+  const transport: MockTransport = {
+    name: 'Mock',
+    interactive: false,
+    sent,
+    isAvailable: async () => true,
+    send: async (recipients, message) => {
+      if (latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latencyMs));
+      }
+      return recipients.map((contact) => {
+        const base = {
+          contactId: contact.id,
+          name: contact.name,
+          phone: contact.phone,
+          transport: transport.name,
+        };
+        if (failFor.includes(contact.phone)) {
+          return { ...base, status: 'failed' as const, error: 'Mock failure' };
+        }
+        sent.push({ phone: contact.phone, message, at: Date.now() });
+        return { ...base, status: 'sent' as const };
+      });
+    },
+  };
+  return transport;
+}
@@ -0,0 +1,94 @@
+import type { EmergencyContact } from '@/lib/contacts';
+import { createId } from '@/lib/id';
+import { incidentStore, isUnderDuress } from '@/lib/incident';
+import { notifyNow } from '@/lib/notifications';
+import { createPersistedStore } from '@/lib/storage';
+
+/**
+ * A message no background transport could send. It waits here, across
+ * restarts, until SosDost is in the foreground and the composer can send it.
+ */
+export interface QueuedAlert {
+  id: string;
+  /** A newer alert with the same topic replaces this one, e.g. `tracking`. */
+  topic: string;
+  incidentId: string | null;
+  recipients: EmergencyContact[];
+  message: string;
+  queuedAt: number;
+}
+
+function isQueuedAlert(value: unknown): value is QueuedAlert {
+  if (typeof value !== 'object' || value === null) return false;
+  const alert = value as QueuedAlert;
+  return (
+    typeof alert.id === 'string' &&
+    typeof alert.topic === 'string' &&
+    (alert.incidentId === null || typeof alert.incidentId === 'string') &&
+    Array.isArray(alert.recipients) &&
+    typeof alert.message === 'string' &&
+    typeof alert.queuedAt === 'number'
+  );
+}
+
+export const outboxStore = createPersistedStore<QueuedAlert[]>({
+  key: 'sosdost.outbox',
+  version: 1,
+  defaultValue: [],
+  validate: (data): data is QueuedAlert[] => Array.isArray(data) && data.every(isQueuedAlert),
+});
+
+/**
+ * Holds `message` for the composer and tells the user it has not gone out.
+ * Under duress nothing is shown: a notification would give the alert away.
+ */
+export async function queueAlert(
+  topic: string,
+  recipients: EmergencyContact[],
+  message: string,
+  incidentId: string | null
+) {
+  const alert: QueuedAlert = { id: createId('out'), topic, incidentId, recipients, message, queuedAt: Date.now() };
+  outboxStore.setState((alerts) => [...alerts.filter((queued) => queued.topic !== topic), alert]);
+  if (isUnderDuress(incidentStore.getState())) return;
+  await notifyNow({
+    title: 'Alert not sent yet',
+    body: `SosDost could not text ${recipients.length} contact(s) in the background. Open the app to send it.`,
+    priority: 'max',
+  });
+}
+
+/** Forgets a queued alert that no longer applies, e.g. an overdue notice once the walk has arrived. */
+export function dropQueuedAlert(topic: string) {
+  if (!outboxStore.getState().some((alert) => alert.topic === topic)) return;
+  outboxStore.setState((alerts) => alerts.filter((alert) => alert.topic !== topic));
+}
+
+/** The oldest queued alert; it stays queued until {@link settleQueuedAlert} is told how sending went. */
+export function peekQueuedAlert() {
+  return outboxStore.getState()[0] ?? null;
+}
+
+/**
+ * Removes a sent alert, or keeps it for just the recipients in `unsentIds`.
+ * An alert replaced or dropped while it was being sent is left alone.
+ */
+export function settleQueuedAlert(id: string, unsentIds: string[]) {
+  outboxStore.setState((alerts) =>
+    unsentIds.length === 0
+      ? alerts.filter((alert) => alert.id !== id)
+      : alerts.map((alert) =>
+          alert.id === id
+            ? { ...alert, recipients: alert.recipients.filter((contact) => unsentIds.includes(contact.id)) }
+            : alert
+        )
+  );
+}
+
+// Alerts for an incident the user has since ended are no longer wanted.
+incidentStore.subscribe(() => {
+  const { phase, incident } = incidentStore.getState();
+  if (!incident || (phase !== 'resolved' && phase !== 'cancelled')) return;
+  if (!outboxStore.getState().some((alert) => alert.incidentId === incident.id)) return;
+  outboxStore.setState((alerts) => alerts.filter((alert) => alert.incidentId !== incident.id));
+});
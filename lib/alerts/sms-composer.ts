@@ -0,0 +1,36 @@
+import * as SMS from 'expo-sms';
+
+import type { AlertTransport, DeliveryStatus } from '@/lib/alerts/types';
+
+/**
+ * Opens the system SMS composer with every recipient prefilled. The user has
+ * to tap send, and the platform reports one result for the whole message.
+ */
+export const smsComposerTransport: AlertTransport = {
+  name: 'SMS composer',
+  interactive: true,
+  isAvailable: () => SMS.isAvailableAsync(),
+  send: async (recipients, message) => {
+    let status: DeliveryStatus;
+    let error: string | undefined;
+    try {
+      const { result } = await SMS.sendSMSAsync(
+        recipients.map((contact) => contact.phone),
+        message
+      );
+      status = result;
+    } catch (e) {
+      status = 'failed';
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    return recipients.map((contact) => ({
+      contactId: contact.id,
+      name: contact.name,
+      phone: contact.phone,
+      status,
+      transport: smsComposerTransport.name,
+      error,
+    }));
+  },
+};
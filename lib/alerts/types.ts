@@ -0,0 +1,35 @@
+import type { EmergencyContact } from '@/lib/contacts';
+
+/**
+ * `unknown` means the message left the app but the platform cannot confirm
+ * delivery (Android's SMS composer always reports this). `queued` means no
+ * background transport could send it and it waits in the outbox.
+ */
+export type DeliveryStatus = 'pending' | 'sent' | 'unknown' | 'queued' | 'cancelled' | 'failed';
+
+export interface RecipientResult {
+  contactId: string;
+  name: string;
+  phone: string;
+  status: DeliveryStatus;
+  transport: string | null;
+  error?: string;
+}
+
+export interface AlertTransport {
+  /** Shown in dispatch reports, e.g. "SMS composer". */
+  name: string;
+  /** Needs the user to act (e.g. tap send), so unsuitable for unattended updates. */
+  interactive: boolean;
+  isAvailable: () => Promise<boolean>;
+  send: (recipients: EmergencyContact[], message: string) => Promise<RecipientResult[]>;
+}
+
+export interface DispatchReport {
+  id: string;
+  incidentId: string | null;
+  message: string;
+  startedAt: number;
+  finishedAt: number | null;
+  results: RecipientResult[];
+}
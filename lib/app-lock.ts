@@ -0,0 +1,33 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import { AppState } from 'react-native';
+
+import { createStore } from '@/lib/store';
+
+/** Whether protected screens are unlocked for this foreground session. */
+export const appLockStore = createStore({ unlocked: false });
+
+/**
+ * Asks for biometrics or the device passcode. Devices with no screen lock at
+ * all cannot be protected, so they are let straight through.
+ */
+export async function authenticateOwner(reason: string) {
+  const level = await LocalAuthentication.getEnrolledLevelAsync();
+  if (level === LocalAuthentication.SecurityLevel.NONE) return true;
+  const result = await LocalAuthentication.authenticateAsync({ promptMessage: reason });
+  return result.success;
+}
+
+export async function unlockApp(reason: string) {
+  if (appLockStore.getState().unlocked) return true;
+  if (!(await authenticateOwner(reason))) return false;
+  appLockStore.setState({ unlocked: true });
+  return true;
+}
+
+export function lockApp() {
+  appLockStore.setState({ unlocked: false });
+}
+
+AppState.addEventListener('change', (next) => {
+  if (next === 'background') lockApp();
+});
@@ -0,0 +1,103 @@
+import {
+  AudioModule,
+  RecordingPresets,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  type AudioRecorder,
+} from 'expo-audio';
+
+import { addEvidence } from '@/lib/evidence';
+import { createId } from '@/lib/id';
+import { logIncident } from '@/lib/incident';
+import { createStore } from '@/lib/store';
+
+/** A crash or kill loses at most this much audio. */
+const CHUNK_MS = 10_000;
+
+export interface RecordingSession {
+  id: string;
+  startedAt: number;
+  /** Chunks already saved as evidence. */
+  savedChunks: number;
+}
+
+export const recordingStore = createStore<RecordingSession | null>(null);
+
+let recorder: AudioRecorder | null = null;
+let chunkStartedAt = 0;
+let chunkTimer: ReturnType<typeof setTimeout> | null = null;
+// Chunk rotation and stop both touch the recorder, so they run one at a time.
+let queue: Promise<void> = Promise.resolve();
+
+function serialize(task: () => Promise<void>) {
+  queue = queue.then(task).catch((error) => console.warn('Audio recording failed:', error));
+  return queue;
+}
+
+async function beginChunk() {
+  recorder = new AudioModule.AudioRecorder(RecordingPresets.HIGH_QUALITY);
+  await recorder.prepareToRecordAsync();
+  recorder.record();
+  chunkStartedAt = Date.now();
+  chunkTimer = setTimeout(() => serialize(rotateChunk), CHUNK_MS);
+}
+
+async function saveChunk() {
+  const session = recordingStore.getState();
+  const current = recorder;
+  if (chunkTimer) clearTimeout(chunkTimer);
+  chunkTimer = null;
+  recorder = null;
+  if (!current || !session) return;
+
+  await current.stop();
+  const uri = current.uri;
+  current.release();
+  if (!uri) return;
+
+  addEvidence({
+    kind: 'audio',
+    sourceUri: uri,
+    sessionId: session.id,
+    sequence: session.savedChunks,
+    capturedAt: chunkStartedAt,
+    durationMs: Date.now() - chunkStartedAt,
+  });
+  recordingStore.setState((state) => state && { ...state, savedChunks: state.savedChunks + 1 });
+}
+
+async function rotateChunk() {
+  if (!recordingStore.getState()) return;
+  await saveChunk();
+  await beginChunk();
+}
+
+/**
+ * Records the microphone in short chunks until stopped, including while the
+ * screen is locked. Returns `false` if microphone access was refused.
+ */
+export async function startAudioRecording() {
+  if (recordingStore.getState()) return true;
+  const { granted } = await requestRecordingPermissionsAsync();
+  if (!granted) return false;
+
+  await setAudioModeAsync({
+    allowsRecording: true,
+    allowsBackgroundRecording: true,
+    shouldPlayInBackground: true,
+    playsInSilentMode: true,
+  });
+  recordingStore.setState({ id: createId('rec'), startedAt: Date.now(), savedChunks: 0 });
+  logIncident('evidence', 'Audio recording started');
+  await serialize(beginChunk);
+  return true;
+}
+
+export async function stopAudioRecording() {
+  if (!recordingStore.getState()) return;
+  await serialize(saveChunk);
+  const session = recordingStore.getState();
+  recordingStore.setState(null);
+  await setAudioModeAsync({ allowsRecording: false, allowsBackgroundRecording: false });
+  logIncident('evidence', `Audio recording stopped after ${session?.savedChunks ?? 0} chunk(s)`);
+}
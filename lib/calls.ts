@@ -0,0 +1,16 @@
+import * as Linking from 'expo-linking';
+
+/** Strips formatting that some dialers reject in `tel:` URLs. */
+export function toDialable(phone: string) {
+  return phone.replace(/[^\d+*#]/g, '');
+}
+
+/** Opens the system dialer. Resolves `false` if the device cannot place calls. */
+export async function dialNumber(phone: string) {
+  try {
+    await Linking.openURL(`tel:${toDialable(phone)}`);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,68 @@
+import type { CameraView } from 'expo-camera';
+
+import { addEvidence } from '@/lib/evidence';
+import { createId } from '@/lib/id';
+import { incidentStore, logIncident } from '@/lib/incident';
+import { createStore } from '@/lib/store';
+
+/** Long recordings are split so no single file grows too large to keep or upload. */
+const SEGMENT_MAX_SEC = 120;
+const SEGMENT_MAX_BYTES = 100 * 1024 * 1024;
+
+const BURST_SIZE = 3;
+const BURST_INTERVAL_MS = 700;
+
+/**
+ * Records back-to-back segments until `keepGoing` returns false, saving each as
+ * evidence. Resolves once the last segment is saved.
+ */
+export async function recordVideoSegments(camera: CameraView, keepGoing: () => boolean) {
+  const sessionId = createId('rec');
+  let sequence = 0;
+  logIncident('evidence', 'Video recording started');
+  while (keepGoing()) {
+    const startedAt = Date.now();
+    const result = await camera.recordAsync({ maxDuration: SEGMENT_MAX_SEC, maxFileSize: SEGMENT_MAX_BYTES });
+    if (!result) break;
+    addEvidence({
+      kind: 'video',
+      sourceUri: result.uri,
+      sessionId,
+      sequence: sequence++,
+      capturedAt: startedAt,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+  logIncident('evidence', `Video recording stopped after ${sequence} segment(s)`);
+  return sequence;
+}
+
+/** Incident waiting for its automatic photo burst, if any. */
+export const photoBurstStore = createStore<string | null>(null);
+
+let lastBurstIncident: string | null = null;
+
+incidentStore.subscribe(() => {
+  const { phase, incident } = incidentStore.getState();
+  if (phase === 'active' && incident && incident.id !== lastBurstIncident) {
+    lastBurstIncident = incident.id;
+    photoBurstStore.setState(incident.id);
+  }
+});
+
+export async function takePhotoBurst(camera: CameraView) {
+  const sessionId = createId('burst');
+  for (let sequence = 0; sequence < BURST_SIZE; sequence++) {
+    if (sequence > 0) await new Promise((resolve) => setTimeout(resolve, BURST_INTERVAL_MS));
+    const picture = await camera.takePictureAsync({ quality: 0.7, shutterSound: false });
+    addEvidence({
+      kind: 'photo',
+      sourceUri: picture.uri,
+      sessionId,
+      sequence,
+      capturedAt: Date.now(),
+      durationMs: null,
+    });
+  }
+  logIncident('evidence', `Captured ${BURST_SIZE} photos automatically`);
+}
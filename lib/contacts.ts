@@ -0,0 +1,211 @@
+import { getLocales } from 'expo-localization';
+
+import { numbersFor, type RegionNumbers, type ServiceKind } from '@/lib/emergency-numbers';
+import { canReceiveSms, parsePhone } from '@/lib/phone';
+import { createPersistedStore } from '@/lib/storage';
+
+export type ContactGroup = 'family' | 'friends' | 'colleagues';
+
+export const CONTACT_GROUPS: Record<ContactGroup, string> = {
+  family: 'Family',
+  friends: 'Friends',
+  colleagues: 'Colleagues',
+};
+
+/** What a personal contact can be sent or asked to do. */
+export type ContactAlertKind = 'sos' | 'tracking' | 'safewalk' | 'calls';
+
+export const CONTACT_ALERTS: Record<ContactAlertKind, string> = {
+  sos: 'SOS alerts',
+  tracking: 'Live location updates',
+  safewalk: 'Safewalk check-ins',
+  calls: 'Escalation calls',
+};
+
+export const ALL_ALERTS = Object.keys(CONTACT_ALERTS) as ContactAlertKind[];
+
+export interface EmergencyContact {
+  id: string;
+  name: string;
+  phone: string;
+  icon: string;
+  relation: string;
+  group: ContactGroup | null;
+  alerts: ContactAlertKind[];
+  /** The address book entry this was picked from, to offer its other numbers. */
+  deviceContactId: string | null;
+}
+
+const SERVICES: { kind: ServiceKind; name: string; icon: string; relation: string }[] = [
+  { kind: 'police', name: 'Police Control', icon: 'shield.fill', relation: 'Official' },
+  { kind: 'ambulance', name: 'Ambulance', icon: 'cross.circle.fill', relation: 'Medical' },
+  { kind: 'fire', name: 'Fire Brigade', icon: 'flame.fill', relation: 'Official' },
+  { kind: 'emergency', name: 'Emergency', icon: 'phone.badge.waveform.fill', relation: 'All services' },
+  { kind: 'women', name: "Women's Helpline", icon: 'person.2.fill', relation: 'Helpline' },
+  { kind: 'child', name: 'Child Helpline', icon: 'figure.and.child.holdinghands', relation: 'Helpline' },
+];
+
+/**
+ * One built-in contact per distinct number; services sharing a number (like
+ * 911) collapse into the first, so `police` always exists for escalation.
+ */
+export function buildServiceContacts(numbers: RegionNumbers): EmergencyContact[] {
+  const contacts: EmergencyContact[] = [];
+  for (const service of SERVICES) {
+    const phone = numbers[service.kind];
+    if (!phone) continue;
+    const shared = contacts.find((contact) => contact.phone === phone);
+    if (shared) {
+      if (service.kind === 'ambulance' || service.kind === 'fire') shared.name = `${shared.name} · ${service.name}`;
+      continue;
+    }
+    contacts.push({
+      id: service.kind,
+      name: service.name,
+      phone,
+      icon: service.icon,
+      relation: service.relation,
+      group: null,
+      alerts: [],
+      deviceContactId: null,
+    });
+  }
+  return contacts;
+}
+
+export const DEFAULT_CONTACTS: EmergencyContact[] = buildServiceContacts(numbersFor('IN'));
+
+const EMERGENCY_SERVICE_IDS: string[] = SERVICES.map((service) => service.kind);
+
+/** Built-in service numbers: always listed, never removable, and never sent SMS alerts. */
+export function isEmergencyService(contact: Pick<EmergencyContact, 'id'>) {
+  return EMERGENCY_SERVICE_IDS.includes(contact.id);
+}
+
+function isEmergencyContact(value: unknown): value is EmergencyContact {
+  if (typeof value !== 'object' || value === null) return false;
+  const contact = value as Record<string, unknown>;
+  return (
+    ['id', 'name', 'phone', 'icon', 'relation'].every((field) => typeof contact[field] === 'string') &&
+    (contact.group === null || Object.keys(CONTACT_GROUPS).includes(contact.group as string)) &&
+    Array.isArray(contact.alerts)
+  );
+}
+
+/**
+ * Rewrites personal numbers saved before normalization in E.164, reading
+ * national numbers as the device's region. Copies that turn out to be the
+ * same number are merged into the higher-priority one, and landlines lose the
+ * alerts they cannot receive.
+ */
+export function normalizeSavedPhones(contacts: EmergencyContact[], region: string) {
+  const merged: EmergencyContact[] = [];
+  for (const contact of contacts) {
+    if (isEmergencyService(contact)) {
+      merged.push(contact);
+      continue;
+    }
+    const parsed = parsePhone(contact.phone, region);
+    const normalized: EmergencyContact = {
+      ...contact,
+      phone: parsed?.e164 ?? contact.phone,
+      alerts: parsed && !canReceiveSms(parsed) ? contact.alerts.filter((kind) => kind === 'calls') : contact.alerts,
+    };
+    const index = merged.findIndex((other) => !isEmergencyService(other) && other.phone === normalized.phone);
+    if (index < 0) {
+      merged.push(normalized);
+      continue;
+    }
+    const kept = merged[index];
+    merged[index] = {
+      ...kept,
+      group: kept.group ?? normalized.group,
+      alerts: [...kept.alerts, ...normalized.alerts.filter((kind) => !kept.alerts.includes(kind))],
+      deviceContactId: kept.deviceContactId ?? normalized.deviceContactId,
+    };
+  }
+  return merged;
+}
+
+/**
+ * Migrations run while settings and the detected region are still loading, so
+ * saved numbers are read as the device's region. 'ZZ' is the unknown region:
+ * with it only numbers that carry their country code parse.
+ */
+function deviceRegion() {
+  return getLocales()[0]?.regionCode ?? 'ZZ';
+}
+
+export const contactsStore = createPersistedStore<EmergencyContact[]>({
+  key: 'sosdost.priorityContacts',
+  version: 2,
+  defaultValue: DEFAULT_CONTACTS,
+  migrations: {
+    // Version 1 held only name, number, icon and relation; picked contacts
+    // were keyed by their address book id and received everything.
+    2: (data) =>
+      normalizeSavedPhones(
+        (data as EmergencyContact[]).map((contact) => ({
+          ...contact,
+          group: null,
+          alerts: isEmergencyService(contact) ? [] : ALL_ALERTS,
+          deviceContactId: isEmergencyService(contact) ? null : contact.id,
+        })),
+        deviceRegion()
+      ),
+  },
+  validate: (data): data is EmergencyContact[] => Array.isArray(data) && data.every(isEmergencyContact),
+});
+
+/** Swaps the built-in services for another region's, keeping personal contacts as they are. */
+export function applyServiceContacts(numbers: RegionNumbers) {
+  const services = buildServiceContacts(numbers);
+  const current = contactsStore.getState().filter(isEmergencyService);
+  if (JSON.stringify(current) === JSON.stringify(services)) return;
+  contactsStore.setState((contacts) => [...services, ...contacts.filter((contact) => !isEmergencyService(contact))]);
+}
+
+/** Personal contacts that opted in to `kind`, in priority order. */
+export function alertRecipients(kind: ContactAlertKind) {
+  return contactsStore.getState().filter((contact) => !isEmergencyService(contact) && contact.alerts.includes(kind));
+}
+
+/**
+ * Updates contacts in place by id. New ones go straight after the last
+ * updated one, so extra numbers for a person stay next to them.
+ */
+export function saveContacts(edited: EmergencyContact[]) {
+  contactsStore.setState((contacts) => {
+    const next = [...contacts];
+    let at = -1;
+    for (const contact of edited) {
+      const index = next.findIndex((existing) => existing.id === contact.id);
+      if (index >= 0) {
+        next[index] = contact;
+        at = index;
+      } else if (at >= 0) {
+        next.splice(++at, 0, contact);
+      } else {
+        next.push(contact);
+      }
+    }
+    return next;
+  });
+}
+
+export function removeContact(id: string) {
+  if (isEmergencyService({ id })) return;
+  contactsStore.setState((contacts) => contacts.filter((contact) => contact.id !== id));
+}
+
+/** Moves a personal contact within the priority order; services always stay first. */
+export function moveContact(from: number, to: number) {
+  contactsStore.setState((contacts) => {
+    const services = contacts.filter(isEmergencyService);
+    const personal = contacts.filter((contact) => !isEmergencyService(contact));
+    if (from === to || !personal[from] || to < 0 || to >= personal.length) return contacts;
+    const [moved] = personal.splice(from, 1);
+    personal.splice(to, 0, moved);
+    return [...services, ...personal];
+  });
+}
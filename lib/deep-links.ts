@@ -0,0 +1,105 @@
+import * as Linking from 'expo-linking';
+import * as QuickActions from 'expo-quick-actions';
+
+import { createStore } from '@/lib/store';
+
+/**
+ * What an external entry point asked for. Links only ever request an
+ * action; the SOS screen confirms it and runs it like its own buttons.
+ */
+export type LinkAction =
+  | { kind: 'sos' }
+  | { kind: 'safewalk'; minutes: number }
+  | { kind: 'fakecall'; delaySec: number }
+  | { kind: 'invalid'; reason: string };
+
+export type LinkSource = 'link' | 'quick action' | 'shortcut';
+
+export interface PendingLink {
+  action: LinkAction;
+  source: LinkSource;
+}
+
+export const SAFEWALK_MINUTES = { min: 1, max: 180 };
+export const FAKE_CALL_DELAY_SEC = { min: 0, max: 3600, fallback: 10 };
+
+type QueryValue = string | string[] | undefined;
+
+function integerParam(value: QueryValue, range: { min: number; max: number }) {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null;
+  const number = Number(value);
+  return number >= range.min && number <= range.max ? number : null;
+}
+
+/**
+ * Reads `sosdost://sos/trigger`, `sosdost://safewalk/start?minutes=15` and
+ * `sosdost://fakecall?delay=30`, from a full URL or a bare path. Anything
+ * else returns `null` and is left to the router.
+ */
+export function parseLink(url: string): LinkAction | null {
+  const { hostname, path, queryParams } = Linking.parse(url);
+  const route = [hostname, path].filter(Boolean).join('/').replace(/^\/+|\/+$/g, '');
+  const params = queryParams ?? {};
+
+  switch (route) {
+    case 'sos/trigger':
+      return { kind: 'sos' };
+    case 'safewalk/start': {
+      const minutes = integerParam(params.minutes, SAFEWALK_MINUTES);
+      return minutes === null
+        ? { kind: 'invalid', reason: `Safewalk links need minutes between ${SAFEWALK_MINUTES.min} and ${SAFEWALK_MINUTES.max}.` }
+        : { kind: 'safewalk', minutes };
+    }
+    case 'fakecall': {
+      if (params.delay === undefined) return { kind: 'fakecall', delaySec: FAKE_CALL_DELAY_SEC.fallback };
+      const delaySec = integerParam(params.delay, FAKE_CALL_DELAY_SEC);
+      return delaySec === null
+        ? { kind: 'invalid', reason: `Fake call delay must be between ${FAKE_CALL_DELAY_SEC.min} and ${FAKE_CALL_DELAY_SEC.max} seconds.` }
+        : { kind: 'fakecall', delaySec };
+    }
+    default:
+      return null;
+  }
+}
+
+/** The link waiting for the SOS screen to confirm it. */
+export const pendingLinkStore = createStore<PendingLink | null>(null);
+
+export function requestLinkAction(action: LinkAction, source: LinkSource) {
+  pendingLinkStore.setState({ action, source });
+}
+
+/** Queues `url` if it is one of ours and reports whether it was. */
+export function receiveLink(url: string, source: LinkSource) {
+  const action = parseLink(url);
+  if (!action) return false;
+  requestLinkAction(action, source);
+  return true;
+}
+
+export function takePendingLink() {
+  const pending = pendingLinkStore.getState();
+  pendingLinkStore.setState(null);
+  return pending;
+}
+
+const QUICK_ACTIONS: QuickActions.Action[] = [
+  { id: 'sos', title: 'Send SOS', icon: 'symbol:exclamationmark.triangle.fill', params: { href: 'sosdost://sos/trigger' } },
+  {
+    id: 'safewalk',
+    title: 'Start Safewalk',
+    subtitle: '15 minutes',
+    icon: 'symbol:figure.walk',
+    params: { href: 'sosdost://safewalk/start?minutes=15' },
+  },
+  { id: 'fakecall', title: 'Fake Call', subtitle: 'Rings in 10 seconds', icon: 'symbol:phone.fill', params: { href: 'sosdost://fakecall?delay=10' } },
+];
+
+function receiveQuickAction(action: QuickActions.Action) {
+  const href = action.params?.href;
+  if (typeof href === 'string') receiveLink(href, 'quick action');
+}
+
+QuickActions.setItems(QUICK_ACTIONS).catch((error) => console.warn('Quick actions unavailable:', error));
+QuickActions.addListener(receiveQuickAction);
+if (QuickActions.initial) receiveQuickAction(QuickActions.initial);
@@ -0,0 +1,150 @@
+import * as Contacts from 'expo-contacts';
+
+import { foldText, fuzzyScore } from '@/lib/fuzzy';
+import { parsePhone } from '@/lib/phone';
+
+/** An address book entry with at least one number, indexed for search. */
+export interface PickerEntry {
+  contact: Contacts.ExistingContact;
+  /** Folded name used for matching and sorting. */
+  key: string;
+  /**
+   * Each number's digits as saved and, when it parses, with its country
+   * code, so "98765", "098765" and "+91 98765" all find "098765 43210".
+   */
+  digits: string[];
+  /** Jump index letter: A–Z, or "#" for anything else. */
+  letter: string;
+}
+
+export interface PickerSection {
+  title: string;
+  data: PickerEntry[];
+}
+
+export interface ContactsPage {
+  entries: PickerEntry[];
+  /** Where the next page starts; `null` after the last one. */
+  nextOffset: number | null;
+}
+
+const PAGE_SIZE = 250;
+/** Queries with this many digits and nothing else search numbers instead of names. */
+const MIN_NUMBER_QUERY = 3;
+/** A search keeps this many of its best matches, not every one in the book. */
+const MAX_RESULTS = 100;
+
+/** Strips the formatting people type or save numbers with, including a leading "+". */
+function stripNumber(text: string) {
+  return text.replace(/[\s().+-]/g, '');
+}
+
+/** The forms `text` is matched in: its digits and, for a full number, its international digits. */
+function digitForms(text: string, region: string) {
+  const forms = [stripNumber(text).replace(/\D/g, '')];
+  const e164 = parsePhone(text, region)?.e164.slice(1);
+  if (e164 && e164 !== forms[0]) forms.push(e164);
+  return forms;
+}
+
+export function toPickerEntry(contact: Contacts.ExistingContact, region: string): PickerEntry | null {
+  const numbers = (contact.phoneNumbers ?? []).map((entry) => entry.number).filter(Boolean) as string[];
+  if (numbers.length === 0) return null;
+  const key = foldText(contact.name ?? '').trim();
+  const first = key.charAt(0);
+  return {
+    contact,
+    key,
+    digits: numbers.flatMap((number) => digitForms(number, region)),
+    letter: first >= 'a' && first <= 'z' ? first.toUpperCase() : '#',
+  };
+}
+
+/** Reads one page of the address book, in first-name order, starting at `pageOffset`. */
+export async function loadContactsPage(pageOffset: number, region: string): Promise<ContactsPage> {
+  const page = await Contacts.getContactsAsync({
+    fields: [Contacts.Fields.PhoneNumbers],
+    pageSize: PAGE_SIZE,
+    pageOffset,
+    sort: Contacts.SortTypes.FirstName,
+  });
+  return {
+    entries: page.data
+      .map((contact) => toPickerEntry(contact, region))
+      .filter((entry): entry is PickerEntry => entry !== null),
+    nextOffset: page.hasNextPage ? pageOffset + PAGE_SIZE : null,
+  };
+}
+
+/** Alphabetical sections, with "#" last. */
+export function sectionEntries(entries: PickerEntry[]): PickerSection[] {
+  const sections = new Map<string, PickerEntry[]>();
+  for (const entry of entries) {
+    const bucket = sections.get(entry.letter);
+    if (bucket) bucket.push(entry);
+    else sections.set(entry.letter, [entry]);
+  }
+  return [...sections.entries()]
+    .sort(([a], [b]) => (a === '#' ? 1 : b === '#' ? -1 : a.localeCompare(b)))
+    .map(([title, data]) => ({ title, data: data.sort((a, b) => a.key.localeCompare(b.key)) }));
+}
+
+/**
+ * Builds a scorer for a query, or `null` for an empty one. Every word must
+ * fuzzily match the name; a query of digits alone matches anywhere inside
+ * a number instead, whatever spacing, dashes or country code either has.
+ */
+function matcherFor(query: string, region: string): ((entry: PickerEntry) => number) | null {
+  const trimmed = query.trim();
+  if (/^\d+$/.test(stripNumber(trimmed)) && stripNumber(trimmed).length >= MIN_NUMBER_QUERY) {
+    const forms = digitForms(trimmed, region);
+    return (entry) => (entry.digits.some((number) => forms.some((form) => number.includes(form))) ? 1 : 0);
+  }
+  const words = foldText(trimmed).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  return (entry) => {
+    let score = 0;
+    for (const word of words) {
+      const wordScore = fuzzyScore(word, entry.key);
+      if (wordScore === 0) return 0;
+      score += wordScore;
+    }
+    return score;
+  };
+}
+
+function rankMatches(entries: PickerEntry[], score: (entry: PickerEntry) => number) {
+  return entries
+    .map((entry) => ({ entry, score: score(entry) }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/** Ranks entries against a query, best first; an empty query keeps them all. */
+export function searchEntries(entries: PickerEntry[], query: string, region: string): PickerEntry[] {
+  const score = matcherFor(query, region);
+  return score ? rankMatches(entries, score).map(({ entry }) => entry) : entries;
+}
+
+/**
+ * Searches the whole address book a page at a time, holding only the best
+ * matches so far rather than the book. Resolves `null` once `isCancelled`
+ * returns true, e.g. because the query has changed.
+ */
+export async function searchDeviceContacts(
+  query: string,
+  region: string,
+  isCancelled: () => boolean,
+  limit = MAX_RESULTS
+): Promise<PickerEntry[] | null> {
+  const score = matcherFor(query, region);
+  if (!score) return [];
+  let best: { entry: PickerEntry; score: number }[] = [];
+  for (let pageOffset: number | null = 0; pageOffset !== null; ) {
+    const page = await loadContactsPage(pageOffset, region);
+    if (isCancelled()) return null;
+    best = [...best, ...rankMatches(page.entries, score)].sort((a, b) => b.score - a.score).slice(0, limit);
+    pageOffset = page.nextOffset;
+  }
+  return best.map(({ entry }) => entry);
+}
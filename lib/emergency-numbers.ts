@@ -0,0 +1,56 @@
+export type ServiceKind = 'police' | 'ambulance' | 'fire' | 'emergency' | 'women' | 'child';
+
+export interface RegionNumbers {
+  name: string;
+  police: string;
+  ambulance: string;
+  fire: string;
+  /** The unified number (112, 911, …) where one exists alongside the others. */
+  emergency?: string;
+  women?: string;
+  child?: string;
+}
+
+/**
+ * Bundled emergency numbers by ISO 3166-1 alpha-2 region. Built-in contacts
+ * are rebuilt from this table at launch, so a correction here reaches
+ * everyone with the next app update.
+ */
+export const EMERGENCY_NUMBERS: Record<string, RegionNumbers> = {
+  AE: { name: 'United Arab Emirates', police: '999', ambulance: '998', fire: '997', emergency: '112' },
+  AU: { name: 'Australia', police: '000', ambulance: '000', fire: '000', emergency: '112', women: '1800 737 732', child: '1800 55 1800' },
+  BD: { name: 'Bangladesh', police: '999', ambulance: '999', fire: '999', women: '109', child: '1098' },
+  BR: { name: 'Brazil', police: '190', ambulance: '192', fire: '193', women: '180', child: '100' },
+  CA: { name: 'Canada', police: '911', ambulance: '911', fire: '911', child: '1-800-668-6868' },
+  CN: { name: 'China', police: '110', ambulance: '120', fire: '119' },
+  DE: { name: 'Germany', police: '110', ambulance: '112', fire: '112', women: '116 016', child: '116 111' },
+  EG: { name: 'Egypt', police: '122', ambulance: '123', fire: '180' },
+  ES: { name: 'Spain', police: '091', ambulance: '061', fire: '080', emergency: '112', women: '016', child: '116 111' },
+  FR: { name: 'France', police: '17', ambulance: '15', fire: '18', emergency: '112', women: '3919', child: '119' },
+  GB: { name: 'United Kingdom', police: '999', ambulance: '999', fire: '999', emergency: '112', women: '0808 2000 247', child: '0800 1111' },
+  ID: { name: 'Indonesia', police: '110', ambulance: '118', fire: '113', emergency: '112', women: '129' },
+  IN: { name: 'India', police: '100', ambulance: '102', fire: '101', emergency: '112', women: '1091', child: '1098' },
+  IT: { name: 'Italy', police: '113', ambulance: '118', fire: '115', emergency: '112', women: '1522', child: '114' },
+  JP: { name: 'Japan', police: '110', ambulance: '119', fire: '119', child: '189' },
+  KE: { name: 'Kenya', police: '999', ambulance: '999', fire: '999', emergency: '112', women: '1195', child: '116' },
+  LK: { name: 'Sri Lanka', police: '119', ambulance: '1990', fire: '110', women: '1938', child: '1929' },
+  MX: { name: 'Mexico', police: '911', ambulance: '911', fire: '911' },
+  MY: { name: 'Malaysia', police: '999', ambulance: '999', fire: '994', emergency: '112', women: '15999', child: '15999' },
+  NL: { name: 'Netherlands', police: '112', ambulance: '112', fire: '112', child: '116 111' },
+  NP: { name: 'Nepal', police: '100', ambulance: '102', fire: '101', women: '1145', child: '1098' },
+  PH: { name: 'Philippines', police: '911', ambulance: '911', fire: '911' },
+  PK: { name: 'Pakistan', police: '15', ambulance: '1122', fire: '16' },
+  RU: { name: 'Russia', police: '102', ambulance: '103', fire: '101', emergency: '112' },
+  SA: { name: 'Saudi Arabia', police: '999', ambulance: '997', fire: '998', emergency: '911' },
+  SG: { name: 'Singapore', police: '999', ambulance: '995', fire: '995' },
+  TR: { name: 'Türkiye', police: '112', ambulance: '112', fire: '112', women: '183' },
+  US: { name: 'United States', police: '911', ambulance: '911', fire: '911', women: '1-800-799-7233', child: '1-800-422-4453' },
+  ZA: { name: 'South Africa', police: '10111', ambulance: '10177', fire: '10177', emergency: '112', women: '0800 428 428', child: '116' },
+};
+
+/** Used when the region is unknown; 112 reaches emergency services from most mobile networks. */
+export const FALLBACK_NUMBERS: RegionNumbers = { name: 'International', police: '112', ambulance: '112', fire: '112' };
+
+export function numbersFor(region: string | null): RegionNumbers {
+  return (region && EMERGENCY_NUMBERS[region.toUpperCase()]) || FALLBACK_NUMBERS;
+}
@@ -0,0 +1,199 @@
+import { Alert, AppState } from 'react-native';
+
+import { dialNumber } from '@/lib/calls';
+import { isEmergencyService, type EmergencyContact } from '@/lib/contacts';
+import { incidentStore, logIncident } from '@/lib/incident';
+import { createStore } from '@/lib/store';
+
+export type CallStepStatus = 'queued' | 'calling' | 'confirmed' | 'unanswered' | 'failed';
+
+export interface CallStep {
+  contact: EmergencyContact;
+  status: CallStepStatus;
+  startedAt: number | null;
+}
+
+export interface EscalationState {
+  status: 'idle' | 'running' | 'confirmed' | 'exhausted' | 'stopped';
+  steps: CallStep[];
+  current: number;
+  /**
+   * When the current call stops waiting for confirmation; `null` while the
+   * app is in the background for the call, and while the user is asked how it went.
+   */
+  deadline: number | null;
+  timeoutMs: number;
+}
+
+export const INITIAL_ESCALATION: EscalationState = {
+  status: 'idle',
+  steps: [],
+  current: -1,
+  deadline: null,
+  timeoutMs: 0,
+};
+
+/** Personal contacts taking calls, in priority order, then the chosen built-in service. */
+export function buildEscalationSteps(contacts: EmergencyContact[], finalContactId: string): CallStep[] {
+  const personal = contacts.filter((contact) => !isEmergencyService(contact) && contact.alerts.includes('calls'));
+  const final =
+    contacts.find((contact) => contact.id === finalContactId) ?? contacts.find(isEmergencyService);
+  return [...personal, ...(final ? [final] : [])].map((contact) => ({
+    contact,
+    status: 'queued',
+    startedAt: null,
+  }));
+}
+
+/**
+ * Closes the current step with `outcome` and starts the next one, if any.
+ * Pure so the chain can be stepped through without timers or a dialer.
+ */
+export function advanceEscalation(
+  state: EscalationState,
+  outcome: 'unanswered' | 'failed',
+  at: number = Date.now()
+): EscalationState {
+  if (state.status !== 'running') return state;
+  const next = state.current + 1;
+  const steps = state.steps.map((step, index) => {
+    if (index === state.current) return { ...step, status: outcome };
+    if (index === next) return { ...step, status: 'calling' as const, startedAt: at };
+    return step;
+  });
+  if (next >= steps.length) {
+    return { ...state, steps, status: 'exhausted', deadline: null };
+  }
+  return { ...state, steps, current: next, deadline: at + state.timeoutMs };
+}
+
+export const escalationStore = createStore<EscalationState>(INITIAL_ESCALATION);
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function clearTimer() {
+  if (timer) clearTimeout(timer);
+  timer = null;
+}
+
+async function callCurrentStep() {
+  clearTimer();
+  const state = escalationStore.getState();
+  if (state.status !== 'running') return;
+
+  const { contact } = state.steps[state.current];
+  logIncident('call', `Calling ${contact.name} (${contact.phone})`);
+  if (!(await dialNumber(contact.phone))) {
+    moveOn('failed');
+    return;
+  }
+  // The dialer may already be in front by the time it reports back.
+  if (AppState.currentState !== 'active') {
+    pauseForCall();
+    return;
+  }
+  timer = setTimeout(() => moveOn('unanswered'), state.timeoutMs);
+}
+
+/**
+ * Android keeps JS timers running in the background, so an answered call
+ * would otherwise be cut into by the next contact's. The chain waits instead
+ * and asks how the call went once the app is back.
+ */
+function pauseForCall() {
+  const state = escalationStore.getState();
+  if (state.status !== 'running' || state.deadline === null) return;
+  clearTimer();
+  escalationStore.setState({ ...state, deadline: null });
+}
+
+function moveOn(outcome: 'unanswered' | 'failed') {
+  const before = escalationStore.getState();
+  if (before.status !== 'running') return;
+  const name = before.steps[before.current].contact.name;
+  logIncident('call', outcome === 'failed' ? `Could not dial ${name}` : `${name} did not confirm`);
+
+  escalationStore.setState(advanceEscalation(before, outcome));
+  if (escalationStore.getState().status === 'exhausted') {
+    clearTimer();
+    logIncident('call', 'Call chain finished without a confirmed answer');
+    return;
+  }
+  callCurrentStep();
+}
+
+export function startEscalation(contacts: EmergencyContact[], options: { timeoutSec: number; finalContactId: string }) {
+  const steps = buildEscalationSteps(contacts, options.finalContactId);
+  if (steps.length === 0) return;
+
+  const now = Date.now();
+  const timeoutMs = options.timeoutSec * 1000;
+  steps[0] = { ...steps[0], status: 'calling', startedAt: now };
+  escalationStore.setState({ status: 'running', steps, current: 0, deadline: now + timeoutMs, timeoutMs });
+  callCurrentStep();
+}
+
+/** The person on the current call picked up; stop escalating. */
+export function confirmCall() {
+  const state = escalationStore.getState();
+  if (state.status !== 'running') return;
+  clearTimer();
+  const steps = state.steps.map((step, index) =>
+    index === state.current ? { ...step, status: 'confirmed' as const } : step
+  );
+  escalationStore.setState({ ...state, steps, status: 'confirmed', deadline: null });
+  logIncident('call', `${steps[state.current].contact.name} answered`);
+}
+
+export function skipCall() {
+  moveOn('unanswered');
+}
+
+export function stopEscalation() {
+  const state = escalationStore.getState();
+  if (state.status !== 'running') return;
+  clearTimer();
+  escalationStore.setState({ ...state, status: 'stopped', deadline: null });
+}
+
+let asking = false;
+
+/**
+ * Coming back from the dialer says nothing about whether the call was
+ * answered, and a long answered call outlasts the timeout, so the chain
+ * waits for the user to say before dialling anyone else.
+ */
+function askHowCallWent() {
+  const state = escalationStore.getState();
+  if (asking || state.status !== 'running') return;
+  asking = true;
+  clearTimer();
+  escalationStore.setState({ ...state, deadline: null });
+  const { name } = state.steps[state.current].contact;
+  const answer = (answered: boolean) => {
+    asking = false;
+    if (answered) confirmCall();
+    else moveOn('unanswered');
+  };
+  Alert.alert(
+    'Was the call answered?',
+    `Did ${name} pick up?`,
+    [
+      { text: 'No, call the next', onPress: () => answer(false) },
+      { text: 'Yes', onPress: () => answer(true) },
+    ],
+    { cancelable: false }
+  );
+}
+
+// The app goes to the background while the dialer is up.
+AppState.addEventListener('change', (next) => {
+  if (escalationStore.getState().status !== 'running') return;
+  if (next === 'active') askHowCallWent();
+  else pauseForCall();
+});
+
+incidentStore.subscribe(() => {
+  const { phase } = incidentStore.getState();
+  if (phase !== 'active') stopEscalation();
+});
@@ -0,0 +1,90 @@
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { createId } from '@/lib/id';
+import { incidentStore, isIncidentOpen } from '@/lib/incident';
+import type { Coordinates } from '@/lib/location-links';
+import { createPersistedStore } from '@/lib/storage';
+import { trackingStore } from '@/lib/tracking';
+import type { EvidenceSeal } from '@/lib/vault';
+
+export type EvidenceKind = 'audio' | 'video' | 'photo';
+
+export interface EvidenceItem {
+  id: string;
+  kind: EvidenceKind;
+  uri: string;
+  /** The SOS incident that was open when this was captured, if any. */
+  incidentId: string | null;
+  /** Groups the chunks of one continuous recording. */
+  sessionId: string;
+  /** Position of this chunk within its session, from 0. */
+  sequence: number;
+  capturedAt: number;
+  durationMs: number | null;
+  location: Coordinates | null;
+  /** Set once the vault has encrypted the file; `uri` then points at the ciphertext. */
+  seal: EvidenceSeal | null;
+}
+
+export const EVIDENCE_DIR = new Directory(Paths.document, 'evidence');
+
+function isEvidenceItem(value: unknown): value is EvidenceItem {
+  if (typeof value !== 'object' || value === null) return false;
+  const item = value as EvidenceItem;
+  return (
+    typeof item.id === 'string' &&
+    ['audio', 'video', 'photo'].includes(item.kind) &&
+    typeof item.uri === 'string' &&
+    typeof item.sessionId === 'string' &&
+    typeof item.capturedAt === 'number' &&
+    (item.seal === null || typeof item.seal === 'object')
+  );
+}
+
+export const evidenceStore = createPersistedStore<EvidenceItem[]>({
+  key: 'sosdost.evidence',
+  version: 1,
+  defaultValue: [],
+  validate: (data): data is EvidenceItem[] => Array.isArray(data) && data.every(isEvidenceItem),
+});
+
+function currentIncidentId() {
+  const { phase, incident } = incidentStore.getState();
+  return isIncidentOpen(phase) ? (incident?.id ?? null) : null;
+}
+
+export interface CapturedFile {
+  kind: EvidenceKind;
+  /** Where the capture API left the file; it is moved into the evidence directory. */
+  sourceUri: string;
+  sessionId: string;
+  sequence: number;
+  capturedAt: number;
+  durationMs: number | null;
+}
+
+/** Moves a finished capture into app storage and indexes it with its incident and location. */
+export function addEvidence({ kind, sourceUri, sessionId, sequence, capturedAt, durationMs }: CapturedFile) {
+  if (!EVIDENCE_DIR.exists) EVIDENCE_DIR.create({ intermediates: true });
+
+  const id = createId(kind);
+  const source = new File(sourceUri);
+  const target = new File(EVIDENCE_DIR, `${id}${source.extension}`);
+  source.move(target);
+
+  const { lastFix } = trackingStore.getState();
+  const item: EvidenceItem = {
+    id,
+    kind,
+    uri: target.uri,
+    incidentId: currentIncidentId(),
+    sessionId,
+    sequence,
+    capturedAt,
+    durationMs,
+    location: lastFix && { latitude: lastFix.latitude, longitude: lastFix.longitude },
+    seal: null,
+  };
+  evidenceStore.setState((items) => [...items, item]);
+  return item;
+}
@@ -0,0 +1,170 @@
+import { createAudioPlayer, setAudioModeAsync, type AudioPlayer } from 'expo-audio';
+import { Directory, File, Paths } from 'expo-file-system';
+import { AppState, Vibration } from 'react-native';
+
+import { createId } from '@/lib/id';
+import { cancelScheduled, scheduleAt } from '@/lib/notifications';
+import { createPersistedStore } from '@/lib/storage';
+import { createStore } from '@/lib/store';
+
+export interface CallerPreset {
+  id: string;
+  name: string;
+  /** Shown under the name, like a phone's number label. */
+  label: string;
+  photoUri: string | null;
+  /** Recording played once the call is answered. */
+  voiceUri: string | null;
+}
+
+export const DEFAULT_CALLERS: CallerPreset[] = [
+  { id: 'mom', name: 'Mom', label: 'mobile', photoUri: null, voiceUri: null },
+  { id: 'office', name: 'Office', label: 'work', photoUri: null, voiceUri: null },
+];
+
+function isCallerPreset(value: unknown): value is CallerPreset {
+  if (typeof value !== 'object' || value === null) return false;
+  const caller = value as CallerPreset;
+  return (
+    typeof caller.id === 'string' &&
+    typeof caller.name === 'string' &&
+    typeof caller.label === 'string' &&
+    (caller.photoUri === null || typeof caller.photoUri === 'string') &&
+    (caller.voiceUri === null || typeof caller.voiceUri === 'string')
+  );
+}
+
+export const callersStore = createPersistedStore<CallerPreset[]>({
+  key: 'sosdost.fakeCallers',
+  version: 1,
+  defaultValue: DEFAULT_CALLERS,
+  validate: (data): data is CallerPreset[] => Array.isArray(data) && data.every(isCallerPreset),
+});
+
+const MEDIA_DIR = new Directory(Paths.document, 'fake-call');
+
+/** Copies a picked photo or fresh recording out of the cache so it survives. */
+export function keepCallerMedia(uri: string, name: string) {
+  if (!MEDIA_DIR.exists) MEDIA_DIR.create({ intermediates: true });
+  const source = new File(uri);
+  const target = new File(MEDIA_DIR, `${name}-${Date.now()}${source.extension}`);
+  source.copy(target);
+  return target.uri;
+}
+
+function deleteMedia(uri: string | null) {
+  if (!uri?.startsWith(MEDIA_DIR.uri)) return;
+  const file = new File(uri);
+  if (file.exists) file.delete();
+}
+
+export function saveCaller(caller: Omit<CallerPreset, 'id'> & { id?: string }) {
+  const saved: CallerPreset = { ...caller, id: caller.id ?? createId('caller') };
+  callersStore.setState((callers) =>
+    callers.some((existing) => existing.id === saved.id)
+      ? callers.map((existing) => (existing.id === saved.id ? saved : existing))
+      : [...callers, saved]
+  );
+  return saved;
+}
+
+export function removeCaller(id: string) {
+  const caller = callersStore.getState().find((existing) => existing.id === id);
+  if (!caller) return;
+  deleteMedia(caller.photoUri);
+  deleteMedia(caller.voiceUri);
+  callersStore.setState((callers) => callers.filter((existing) => existing.id !== id));
+}
+
+export type FakeCallPhase = 'idle' | 'scheduled' | 'ringing' | 'answered';
+
+export interface FakeCallState {
+  phase: FakeCallPhase;
+  caller: CallerPreset | null;
+  ringAt: number | null;
+  answeredAt: number | null;
+}
+
+const IDLE: FakeCallState = { phase: 'idle', caller: null, ringAt: null, answeredAt: null };
+
+export const fakeCallStore = createStore<FakeCallState>(IDLE);
+
+/** Real phones ring in bursts; this matches the gaps in the ringtone. */
+const VIBRATION_PATTERN = [0, 1000, 1600];
+
+let ringTimer: ReturnType<typeof setTimeout> | null = null;
+let notificationId: string | null = null;
+let player: AudioPlayer | null = null;
+
+function stopSound() {
+  Vibration.cancel();
+  if (!player) return;
+  player.pause();
+  player.remove();
+  player = null;
+}
+
+async function playSound(source: number | string, loop: boolean) {
+  stopSound();
+  await setAudioModeAsync({ playsInSilentMode: true, shouldPlayInBackground: true });
+  player = createAudioPlayer(source);
+  player.loop = loop;
+  player.volume = 1;
+  player.play();
+}
+
+function clearSchedule() {
+  if (ringTimer) clearTimeout(ringTimer);
+  ringTimer = null;
+  if (notificationId) cancelScheduled([notificationId]);
+  notificationId = null;
+}
+
+function ring() {
+  const { phase, caller } = fakeCallStore.getState();
+  if (phase !== 'scheduled' || !caller) return;
+  clearSchedule();
+  fakeCallStore.setState((state) => ({ ...state, phase: 'ringing' }));
+  playSound(require('@/assets/sounds/ringtone.wav'), true);
+  Vibration.vibrate(VIBRATION_PATTERN, true);
+}
+
+/**
+ * Rings after `delaySec`. If the app is in the background by then, a
+ * notification from the caller stands in until the app is opened.
+ */
+export async function scheduleFakeCall(caller: CallerPreset, delaySec: number) {
+  endFakeCall();
+  const ringAt = Date.now() + delaySec * 1000;
+  fakeCallStore.setState({ ...IDLE, phase: 'scheduled', caller, ringAt });
+  if (delaySec <= 0) {
+    ring();
+    return;
+  }
+  ringTimer = setTimeout(ring, delaySec * 1000);
+  notificationId = await scheduleAt(ringAt, {
+    title: caller.name,
+    body: `Incoming call · ${caller.label}`,
+    sound: true,
+  });
+}
+
+export function answerFakeCall() {
+  const { phase, caller } = fakeCallStore.getState();
+  if (phase !== 'ringing') return;
+  stopSound();
+  fakeCallStore.setState((state) => ({ ...state, phase: 'answered', answeredAt: Date.now() }));
+  if (caller?.voiceUri) playSound(caller.voiceUri, false);
+}
+
+export function endFakeCall() {
+  clearSchedule();
+  stopSound();
+  fakeCallStore.setState(IDLE);
+}
+
+AppState.addEventListener('change', (next) => {
+  const { phase, ringAt } = fakeCallStore.getState();
+  // Timers can be held back while suspended; catch up as soon as the app is opened.
+  if (next === 'active' && phase === 'scheduled' && ringAt !== null && ringAt <= Date.now()) ring();
+});
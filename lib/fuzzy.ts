@@ -0,0 +1,52 @@
+/** Letters that do not decompose into a base letter plus a combining mark. */
+const FOLDED_LETTERS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ı: 'i',
+};
+
+/** Lower-cases and strips accents, so "José" and "jose" compare equal. */
+export function foldText(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[ßæœøłđðþı]/g, (letter) => FOLDED_LETTERS[letter]);
+}
+
+function scoreFrom(needle: string, haystack: string, start: number) {
+  let score = 0;
+  let run = 0;
+  let from = start;
+  for (const letter of needle) {
+    const at = haystack.indexOf(letter, from);
+    if (at < 0) return 0;
+    run = at === from && from > start ? run + 1 : 1;
+    const wordStart = at === 0 || haystack[at - 1] === ' ';
+    score += run + (wordStart ? 3 : 0);
+    from = at + 1;
+  }
+  return score;
+}
+
+/**
+ * Scores `needle` as an in-order subsequence of `haystack`, both already
+ * folded. Runs of consecutive letters and matches at the start of a word
+ * score higher; `0` means the letters are not all there.
+ */
+export function fuzzyScore(needle: string, haystack: string) {
+  if (!needle) return 0;
+  let best = 0;
+  // Greedy matching from the first hit would miss "ors" in "jose orsted", so try every start.
+  for (let start = haystack.indexOf(needle[0]); start >= 0; start = haystack.indexOf(needle[0], start + 1)) {
+    best = Math.max(best, scoreFrom(needle, haystack, start));
+  }
+  // Prefer shorter names when the match is otherwise as good.
+  return best === 0 ? 0 : best + needle.length / haystack.length;
+}
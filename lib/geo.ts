@@ -0,0 +1,50 @@
+import type { Coordinates } from '@/lib/location-links';
+
+const EARTH_RADIUS_M = 6371000;
+
+/** Great-circle distance in metres. */
+export function distanceMeters(a: Coordinates, b: Coordinates) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Whether a fix accurate to `accuracyM` is within `radiusM` of `center`. Its
+ * whole accuracy circle has to fit inside, so a poor fix never counts.
+ */
+export function isWithinRadius(fix: Coordinates, accuracyM: number | null, center: Coordinates, radiusM: number) {
+  return distanceMeters(fix, center) + (accuracyM ?? 0) <= radiusM;
+}
+
+/** A relaxed walking pace; streets rarely run in a straight line. */
+const WALKING_SPEED_MPS = 1.2;
+/** Slack added to the latest arrival for crossings, stops and detours. */
+const ARRIVAL_BUFFER_MIN = 5;
+
+export interface ArrivalWindow {
+  distanceM: number;
+  expectedMin: number;
+  /** After this the walker counts as significantly overdue. */
+  latestMin: number;
+}
+
+export function estimateArrivalWindow(from: Coordinates, to: Coordinates): ArrivalWindow {
+  const distanceM = distanceMeters(from, to);
+  const expectedMin = Math.max(1, Math.ceil(distanceM / WALKING_SPEED_MPS / 60));
+  return { distanceM, expectedMin, latestMin: Math.ceil(expectedMin * 1.5) + ARRIVAL_BUFFER_MIN };
+}
+
+/** Parses "lat, lng" in decimal degrees. Returns `null` for anything else. */
+export function parseCoordinates(text: string): Coordinates | null {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
@@ -0,0 +1,103 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Alert } from 'react-native';
+
+import type { DispatchReport } from '@/lib/alerts/types';
+import type { EvidenceItem } from '@/lib/evidence';
+import { evidenceFor, type HistoryEntry } from '@/lib/history';
+import { buildMapLink } from '@/lib/location-links';
+
+export type ExportFormat = 'json' | 'report';
+
+export const HISTORY_TITLES: Record<HistoryEntry['kind'], string> = {
+  sos: 'SOS incident',
+  safewalk: 'Safewalk',
+  recording: 'Recording',
+};
+
+const stamp = (at: number) => new Date(at).toLocaleString();
+
+/** Evidence is described, never embedded: the files stay encrypted in the vault. */
+function describeEvidence(item: EvidenceItem) {
+  const { id, kind, sessionId, sequence, capturedAt, durationMs, location, seal } = item;
+  return { id, kind, sessionId, sequence, capturedAt, durationMs, location, sha256: seal?.sha256 ?? null };
+}
+
+export function buildHistoryJson(entries: HistoryEntry[], evidence: EvidenceItem[]) {
+  return JSON.stringify(
+    {
+      exportedAt: Date.now(),
+      entries: entries.map((entry) => ({ ...entry, evidence: evidenceFor(entry, evidence).map(describeEvidence) })),
+    },
+    null,
+    2
+  );
+}
+
+function describeDispatch(report: DispatchReport) {
+  const lines = [`  ${stamp(report.startedAt)} — message to ${report.results.length} contact(s):`];
+  for (const result of report.results) {
+    const via = result.transport ? ` via ${result.transport}` : '';
+    lines.push(`    • ${result.name} (${result.phone}): ${result.status}${via}${result.error ? ` — ${result.error}` : ''}`);
+  }
+  return lines;
+}
+
+export function buildHistoryReport(entries: HistoryEntry[], evidence: EvidenceItem[]) {
+  const lines = ['SosDost incident report', `Generated ${stamp(Date.now())}`];
+  for (const entry of entries) {
+    lines.push('', '='.repeat(40), `${HISTORY_TITLES[entry.kind]} — ${stamp(entry.startedAt)}`);
+    lines.push(entry.endedAt === null ? 'Still in progress' : `Ended ${stamp(entry.endedAt)} (${entry.outcome ?? 'ended'})`);
+    if (entry.underDuress) lines.push('Cancelled under duress.');
+
+    lines.push('', 'Timeline:');
+    for (const event of entry.events) lines.push(`  ${stamp(event.at)} — ${event.message}`);
+
+    if (entry.dispatches.length > 0) {
+      lines.push('', 'Messages:');
+      for (const report of entry.dispatches) lines.push(...describeDispatch(report));
+    }
+
+    if (entry.trail.length > 0) {
+      const first = entry.trail[0];
+      const last = entry.trail[entry.trail.length - 1];
+      lines.push('', `Location trail: ${entry.trail.length} point(s)`);
+      lines.push(`  First: ${stamp(first.at)} ${buildMapLink('google', first)}`);
+      lines.push(`  Last: ${stamp(last.at)} ${buildMapLink('google', last)}`);
+    }
+
+    const items = evidenceFor(entry, evidence);
+    if (items.length > 0) {
+      lines.push('', 'Evidence:');
+      for (const item of items) {
+        lines.push(`  ${stamp(item.capturedAt)} — ${item.kind} #${item.sequence + 1}${item.seal ? ` (SHA-256 ${item.seal.sha256})` : ''}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+/** Writes the export to the cache and opens the share sheet for it. */
+export async function shareHistory(entries: HistoryEntry[], evidence: EvidenceItem[], format: ExportFormat) {
+  const name = entries.length === 1 ? entries[0].id : 'history';
+  const file = new File(Paths.cache, `sosdost-${name}.${format === 'json' ? 'json' : 'txt'}`);
+  if (file.exists) file.delete();
+  file.write(format === 'json' ? buildHistoryJson(entries, evidence) : buildHistoryReport(entries, evidence));
+  await Sharing.shareAsync(file.uri, {
+    mimeType: format === 'json' ? 'application/json' : 'text/plain',
+    dialogTitle: 'Export incident history',
+  });
+}
+
+/** Asks which format to share in, then shares it. */
+export function promptHistoryExport(entries: HistoryEntry[], evidence: EvidenceItem[]) {
+  const share = (format: ExportFormat) =>
+    shareHistory(entries, evidence, format).catch(() =>
+      Alert.alert('Export failed', 'The history could not be written or shared.')
+    );
+  Alert.alert('Export', 'Choose a format to share.', [
+    { text: 'Readable report', onPress: () => share('report') },
+    { text: 'JSON', onPress: () => share('json') },
+    { text: 'Cancel', style: 'cancel' },
+  ]);
+}
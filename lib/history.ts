@@ -0,0 +1,284 @@
+import { dispatchStore } from '@/lib/alerts/dispatch';
+import type { DispatchReport } from '@/lib/alerts/types';
+import { evidenceStore, type EvidenceItem } from '@/lib/evidence';
+import { incidentStore, isIncidentOpen, type Incident } from '@/lib/incident';
+import { safewalkStore, type Safewalk } from '@/lib/safewalk';
+import { createPersistedStore } from '@/lib/storage';
+import { trackingStore, type Breadcrumb } from '@/lib/tracking';
+
+export type HistoryKind = 'sos' | 'safewalk' | 'recording';
+
+export interface HistoryEvent {
+  at: number;
+  kind: string;
+  message: string;
+}
+
+export interface HistoryEntry {
+  /** The incident, Safewalk or recording session this entry follows. */
+  id: string;
+  kind: HistoryKind;
+  startedAt: number;
+  endedAt: number | null;
+  /** How it finished, e.g. "resolved" or "arrived"; `null` while ongoing. */
+  outcome: string | null;
+  underDuress: boolean;
+  events: HistoryEvent[];
+  dispatches: DispatchReport[];
+  trail: Breadcrumb[];
+}
+
+/** Oldest entries are dropped beyond this. Evidence itself stays in the vault. */
+const MAX_ENTRIES = 100;
+/**
+ * Each entry keeps a thinned-out trail: all entries share one storage row, and
+ * Android cannot read a row much past 2 MB.
+ */
+const MAX_TRAIL_POINTS = 50;
+/** The trail is copied in at most this often while something is running, and once at the end. */
+const TRAIL_SYNC_MS = 60_000;
+/** Arrival messages go out just after the walk ends and still belong to it. */
+const LATE_DISPATCH_MS = 60_000;
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as HistoryEntry;
+  return (
+    typeof entry.id === 'string' &&
+    ['sos', 'safewalk', 'recording'].includes(entry.kind) &&
+    typeof entry.startedAt === 'number' &&
+    Array.isArray(entry.events) &&
+    Array.isArray(entry.dispatches) &&
+    Array.isArray(entry.trail)
+  );
+}
+
+/** Evenly spaced fixes from `trail`, always keeping the first and last. */
+function thinTrail(trail: Breadcrumb[]) {
+  if (trail.length <= MAX_TRAIL_POINTS) return trail;
+  const step = (trail.length - 1) / (MAX_TRAIL_POINTS - 1);
+  return Array.from({ length: MAX_TRAIL_POINTS }, (_, i) => trail[Math.round(i * step)]);
+}
+
+export const historyStore = createPersistedStore<HistoryEntry[]>({
+  key: 'sosdost.history',
+  version: 1,
+  defaultValue: [],
+  validate: (data): data is HistoryEntry[] => Array.isArray(data) && data.every(isHistoryEntry),
+});
+
+function newEntry(id: string, kind: HistoryKind, startedAt: number): HistoryEntry {
+  return { id, kind, startedAt, endedAt: null, outcome: null, underDuress: false, events: [], dispatches: [], trail: [] };
+}
+
+function upsertEntry(id: string, create: () => HistoryEntry, update: (entry: HistoryEntry) => HistoryEntry) {
+  if (!historyStore.isHydrated()) return;
+  historyStore.setState((entries) => {
+    const existing = entries.find((entry) => entry.id === id);
+    if (!existing) return [update(create()), ...entries].slice(0, MAX_ENTRIES);
+    const updated = update(existing);
+    return updated === existing ? entries : entries.map((entry) => (entry.id === id ? updated : entry));
+  });
+}
+
+function updateEntry(id: string, update: (entry: HistoryEntry) => HistoryEntry) {
+  if (!historyStore.isHydrated()) return;
+  historyStore.setState((entries) =>
+    entries.some((entry) => entry.id === id) ? entries.map((entry) => (entry.id === id ? update(entry) : entry)) : entries
+  );
+}
+
+/** Adds a line to an entry's timeline, e.g. how a Safewalk ended. */
+export function noteHistory(id: string, kind: string, message: string, at: number = Date.now()) {
+  updateEntry(id, (entry) => ({ ...entry, events: [...entry.events, { at, kind, message }] }));
+}
+
+/** An alert stood down with the duress PIN must not look like it is still running. */
+export function isListedEntry(entry: HistoryEntry) {
+  return !(entry.underDuress && entry.endedAt === null);
+}
+
+export function evidenceFor(entry: HistoryEntry, evidence: EvidenceItem[]) {
+  return evidence
+    .filter((item) => (entry.kind === 'recording' ? item.incidentId === null && item.sessionId === entry.id : item.incidentId === entry.id))
+    .sort((a, b) => a.capturedAt - b.capturedAt);
+}
+
+function incidentEvents(incident: Incident): HistoryEvent[] {
+  return [
+    ...incident.transitions.map((step) => ({ at: step.at, kind: step.to, message: step.reason })),
+    ...incident.log,
+  ].sort((a, b) => a.at - b.at);
+}
+
+function syncIncident() {
+  const { phase, incident } = incidentStore.getState();
+  // An abandoned hold never reaches the history.
+  if (!incident || phase === 'idle' || phase === 'arming') return;
+  upsertEntry(
+    incident.id,
+    () => newEntry(incident.id, 'sos', incident.startedAt),
+    (entry) => ({
+      ...entry,
+      endedAt: incident.endedAt,
+      outcome: incident.endedAt === null ? null : phase,
+      underDuress: incident.underDuress,
+      events: incidentEvents(incident),
+    })
+  );
+  if (incident.endedAt !== null) syncTrail(incident.id, true);
+}
+
+let lastWalk: Safewalk | null = null;
+let lastWalkEndedAt = 0;
+
+function describeWalk(walk: Safewalk) {
+  const minutes = Math.round((walk.deadline - walk.startedAt) / 60_000);
+  return walk.destination ? `Started a walk to ${walk.destination.name} (${minutes} min)` : `Started a ${minutes} min timer`;
+}
+
+function syncSafewalk() {
+  const walk = safewalkStore.getState();
+  const previous = lastWalk;
+  lastWalk = walk;
+  if (!safewalkStore.isHydrated()) return;
+
+  if (walk) {
+    upsertEntry(
+      walk.id,
+      () => ({ ...newEntry(walk.id, 'safewalk', walk.startedAt), events: [{ at: walk.startedAt, kind: 'start', message: describeWalk(walk) }] }),
+      (entry) =>
+        walk.status === 'expired' && !entry.events.some((event) => event.kind === 'expired')
+          ? { ...entry, events: [...entry.events, { at: walk.deadline, kind: 'expired', message: 'Timer ended without a check-in' }] }
+          : entry
+    );
+  }
+  if (previous && previous.id !== walk?.id) {
+    lastWalkEndedAt = Date.now();
+    updateEntry(previous.id, (entry) => ({
+      ...entry,
+      endedAt: lastWalkEndedAt,
+      outcome: [...entry.events].reverse().find((event) => event.kind === 'outcome')?.message ?? 'Ended',
+      events: [...entry.events, { at: lastWalkEndedAt, kind: 'end', message: 'Safewalk ended' }],
+    }));
+    syncTrail(previous.id, true);
+  }
+}
+
+/** Records how a walk ended; call before finishing it. */
+export function noteSafewalkOutcome(walkId: string, outcome: string) {
+  noteHistory(walkId, 'outcome', outcome);
+}
+
+/** The entry a message or location fix belongs to: the open incident, else the walk. */
+function currentEntryId(lateDispatch = false) {
+  const { phase, incident } = incidentStore.getState();
+  if (incident && isIncidentOpen(phase)) return incident.id;
+  const walk = safewalkStore.getState();
+  if (walk) return walk.id;
+  if (lateDispatch && lastWalk === null && Date.now() - lastWalkEndedAt < LATE_DISPATCH_MS) {
+    return historyStore.getState().find((entry) => entry.kind === 'safewalk')?.id ?? null;
+  }
+  return null;
+}
+
+function syncDispatch() {
+  const report = dispatchStore.getState();
+  if (!report) return;
+  const id = report.incidentId ?? currentEntryId(true);
+  if (!id) return;
+  updateEntry(id, (entry) => {
+    const known = entry.dispatches.some((dispatch) => dispatch.id === report.id);
+    return {
+      ...entry,
+      dispatches: known
+        ? entry.dispatches.map((dispatch) => (dispatch.id === report.id ? report : dispatch))
+        : [...entry.dispatches, report],
+    };
+  });
+}
+
+const trailSyncedAt = new Map<string, number>();
+
+function syncTrail(id: string, force = false) {
+  const now = Date.now();
+  if (!force && now - (trailSyncedAt.get(id) ?? 0) < TRAIL_SYNC_MS) return;
+  trailSyncedAt.set(id, now);
+  const { trail } = trackingStore.getState();
+  updateEntry(id, (entry) => ({
+    ...entry,
+    trail: thinTrail(
+      trail.filter((crumb) => crumb.at >= entry.startedAt && (entry.endedAt === null || crumb.at <= entry.endedAt))
+    ),
+  }));
+}
+
+function syncRecordings() {
+  const sessions = new Map<string, EvidenceItem[]>();
+  for (const item of evidenceStore.getState()) {
+    if (item.incidentId !== null) continue;
+    sessions.set(item.sessionId, [...(sessions.get(item.sessionId) ?? []), item]);
+  }
+  for (const [sessionId, items] of sessions) {
+    const sorted = [...items].sort((a, b) => a.capturedAt - b.capturedAt);
+    const last = sorted[sorted.length - 1];
+    upsertEntry(
+      sessionId,
+      () => newEntry(sessionId, 'recording', sorted[0].capturedAt),
+      (entry) =>
+        entry.events.length === sorted.length
+          ? entry
+          : {
+              ...entry,
+              endedAt: last.capturedAt + (last.durationMs ?? 0),
+              outcome: `${sorted.length} ${last.kind} item(s)`,
+              events: sorted.map((item) => ({ at: item.capturedAt, kind: item.kind, message: `Saved ${item.kind} #${item.sequence + 1}` })),
+            }
+    );
+  }
+}
+
+incidentStore.subscribe(syncIncident);
+safewalkStore.subscribe(syncSafewalk);
+dispatchStore.subscribe(syncDispatch);
+evidenceStore.subscribe(syncRecordings);
+trackingStore.subscribe(() => {
+  const id = currentEntryId();
+  if (id) syncTrail(id);
+});
+/**
+ * Closes SOS entries left open by an incident that is no longer running, such
+ * as one from before incidents outlived the app. Left open, one stood down
+ * under duress would stay hidden from the list for good.
+ */
+function closeStaleIncidents() {
+  const { phase, incident } = incidentStore.getState();
+  const openId = incident && isIncidentOpen(phase) ? incident.id : null;
+  const isStale = (entry: HistoryEntry) => entry.kind === 'sos' && entry.endedAt === null && entry.id !== openId;
+  if (!historyStore.getState().some(isStale)) return;
+  historyStore.setState((entries) =>
+    entries.map((entry) => {
+      if (!isStale(entry)) return entry;
+      const endedAt = Math.max(entry.startedAt, ...entry.events.map((event) => event.at));
+      return {
+        ...entry,
+        endedAt,
+        outcome: 'interrupted',
+        events: [...entry.events, { at: endedAt, kind: 'interrupted', message: 'SosDost closed before the alert was ended' }],
+      };
+    })
+  );
+}
+
+// Whatever was restored before the history itself loaded is picked up once it has.
+let caughtUp = false;
+function catchUp() {
+  if (caughtUp || !historyStore.isHydrated() || !incidentStore.isHydrated()) return;
+  caughtUp = true;
+  closeStaleIncidents();
+  syncIncident();
+  syncSafewalk();
+  syncRecordings();
+}
+historyStore.subscribe(catchUp);
+incidentStore.subscribe(catchUp);
@@ -0,0 +1,13 @@
+/** Like `fetch`, but aborts with an error once `timeoutMs` passes without a response. */
+export async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error(`No response within ${timeoutMs / 1000} seconds`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,5 @@
+/** Short, time-ordered identifiers for locally created records. */
+export function createId(prefix: string) {
+  const random = Math.random().toString(36).slice(2, 8);
+  return `${prefix}_${Date.now().toString(36)}${random}`;
+}
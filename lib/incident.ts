@@ -0,0 +1,158 @@
+import { createId } from '@/lib/id';
+import { createPersistedStore } from '@/lib/storage';
+
+/**
+ * idle → arming → countdown → active → resolved | cancelled
+ *
+ * Hands-free triggers may skip `arming`, and `countdown` may be skipped when
+ * no cancel window is configured.
+ */
+export type IncidentPhase = 'idle' | 'arming' | 'countdown' | 'active' | 'resolved' | 'cancelled';
+
+export interface IncidentTransition {
+  from: IncidentPhase;
+  to: IncidentPhase;
+  at: number;
+  reason: string;
+}
+
+export interface IncidentLogEntry {
+  at: number;
+  kind: string;
+  message: string;
+}
+
+export interface Incident {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  transitions: IncidentTransition[];
+  log: IncidentLogEntry[];
+  /** Stood down with the duress PIN: the UI reads as safe while the alert carries on. */
+  underDuress: boolean;
+}
+
+export interface IncidentState {
+  phase: IncidentPhase;
+  /** The incident in progress, or the last one to finish or be aborted. `null` only before the first arm. */
+  incident: Incident | null;
+}
+
+const ALLOWED: Record<IncidentPhase, IncidentPhase[]> = {
+  idle: ['arming', 'countdown', 'active'],
+  arming: ['idle', 'countdown', 'active'],
+  countdown: ['active', 'cancelled'],
+  active: ['resolved', 'cancelled'],
+  resolved: ['arming', 'countdown', 'active'],
+  cancelled: ['arming', 'countdown', 'active'],
+};
+
+const TERMINAL: IncidentPhase[] = ['resolved', 'cancelled'];
+
+export const INITIAL_INCIDENT_STATE: IncidentState = { phase: 'idle', incident: null };
+
+export function canTransition(from: IncidentPhase, to: IncidentPhase) {
+  return ALLOWED[from].includes(to);
+}
+
+export function isIncidentOpen(phase: IncidentPhase) {
+  return phase === 'countdown' || phase === 'active';
+}
+
+/** Screens check this before showing anything an onlooker could read as an alert in progress. */
+export function isUnderDuress({ phase, incident }: IncidentState) {
+  return phase === 'active' && incident?.underDuress === true;
+}
+
+/**
+ * Pure transition function. Disallowed moves return `state` unchanged so
+ * callers can fire events from UI handlers without pre-checking the phase.
+ */
+export function transition(
+  state: IncidentState,
+  to: IncidentPhase,
+  reason: string,
+  at: number = Date.now()
+): IncidentState {
+  if (!canTransition(state.phase, to)) return state;
+
+  const step: IncidentTransition = { from: state.phase, to, at, reason };
+
+  // Leaving idle or a finished incident starts a new one.
+  const startsNew = state.phase === 'idle' || TERMINAL.includes(state.phase);
+  if (startsNew) {
+    return {
+      phase: to,
+      incident: { id: createId('inc'), startedAt: at, endedAt: null, transitions: [step], log: [], underDuress: false },
+    };
+  }
+
+  // An aborted hold ends here too; it keeps its transitions as an audit trail
+  // but, back in `idle`, is never treated as an incident in progress.
+  const incident = state.incident!;
+  return {
+    phase: to,
+    incident: {
+      ...incident,
+      endedAt: TERMINAL.includes(to) || to === 'idle' ? at : null,
+      transitions: [...incident.transitions, step],
+    },
+  };
+}
+
+export function appendLog(
+  state: IncidentState,
+  kind: string,
+  message: string,
+  at: number = Date.now()
+): IncidentState {
+  if (!state.incident || state.phase === 'idle') return state;
+  return {
+    ...state,
+    incident: { ...state.incident, log: [...state.incident.log, { at, kind, message }] },
+  };
+}
+
+const PHASES = Object.keys(ALLOWED);
+
+function isIncidentState(value: unknown): value is IncidentState {
+  if (typeof value !== 'object' || value === null) return false;
+  const { phase, incident } = value as IncidentState;
+  if (!PHASES.includes(phase)) return false;
+  if (incident === null) return phase === 'idle';
+  return (
+    typeof incident === 'object' &&
+    typeof incident.id === 'string' &&
+    typeof incident.startedAt === 'number' &&
+    Array.isArray(incident.transitions) &&
+    Array.isArray(incident.log) &&
+    typeof incident.underDuress === 'boolean'
+  );
+}
+
+/** Saved so an SOS, including one stood down under duress, outlives the app being closed. */
+export const incidentStore = createPersistedStore<IncidentState>({
+  key: 'sosdost.incident',
+  version: 1,
+  defaultValue: INITIAL_INCIDENT_STATE,
+  validate: isIncidentState,
+});
+
+/** Moves the shared incident and reports whether the move was allowed. */
+export function moveIncident(to: IncidentPhase, reason: string) {
+  const before = incidentStore.getState();
+  incidentStore.setState((state) => transition(state, to, reason));
+  return incidentStore.getState() !== before;
+}
+
+export function logIncident(kind: string, message: string) {
+  incidentStore.setState((state) => appendLog(state, kind, message));
+}
+
+export function markDuress(message: string) {
+  incidentStore.setState((state) =>
+    state.incident && state.phase === 'active'
+      ? appendLog({ ...state, incident: { ...state.incident, underDuress: true } }, 'duress', message)
+      : state
+  );
+}
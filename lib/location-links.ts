@@ -0,0 +1,99 @@
+import { Platform } from 'react-native';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export type MapProvider = 'google' | 'apple' | 'osm' | 'geo';
+
+/** ~11 cm; more digits only make links longer. */
+const URL_PRECISION = 6;
+
+function fixed({ latitude, longitude }: Coordinates) {
+  return { lat: latitude.toFixed(URL_PRECISION), lng: longitude.toFixed(URL_PRECISION) };
+}
+
+export function buildMapLink(provider: MapProvider, coords: Coordinates, label?: string) {
+  const { lat, lng } = fixed(coords);
+  switch (provider) {
+    case 'google':
+      return `https://www.google.com/maps/search/?api=1&query=${lat}%2C${lng}`;
+    case 'apple': {
+      const query = label ? `&q=${encodeURIComponent(label)}` : '';
+      return `https://maps.apple.com/?ll=${lat},${lng}${query}`;
+    }
+    case 'osm':
+      return `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}#map=17/${lat}/${lng}`;
+    case 'geo': {
+      const name = label ? `(${encodeURIComponent(label)})` : '';
+      return `geo:${lat},${lng}?q=${lat},${lng}${name}`;
+    }
+  }
+}
+
+/** The URL that opens the platform's own maps app. */
+export function nativeMapLink(coords: Coordinates, label?: string) {
+  return Platform.select({
+    ios: buildMapLink('apple', coords, label),
+    android: buildMapLink('geo', coords, label),
+    default: buildMapLink('google', coords, label),
+  });
+}
+
+export function formatDecimal({ latitude, longitude }: Coordinates, precision = URL_PRECISION) {
+  return `${latitude.toFixed(precision)}, ${longitude.toFixed(precision)}`;
+}
+
+function toDms(value: number, positive: string, negative: string) {
+  const hemisphere = value >= 0 ? positive : negative;
+  const totalSeconds = Math.round(Math.abs(value) * 36000) / 10;
+  const degrees = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toFixed(1);
+  return `${degrees}°${minutes}'${seconds}"${hemisphere}`;
+}
+
+/** e.g. `28°36'50.4"N 77°12'32.9"E` */
+export function formatDms({ latitude, longitude }: Coordinates) {
+  return `${toDms(latitude, 'N', 'S')} ${toDms(longitude, 'E', 'W')}`;
+}
+
+const PLUS_CODE_ALPHABET = '23456789CFGHJMPQRVWX';
+/** Grid units per degree at 10-digit precision (1/8000° ≈ 14 m). */
+const PLUS_CODE_UNITS = 8000;
+/** Units covered by each digit pair, most significant first. */
+const PLUS_CODE_PLACES = [160000, 8000, 400, 20, 1];
+
+/**
+ * Encodes a 10-digit Open Location Code, e.g. `7JWVJ675+HJ`.
+ * Works offline and can be typed into Google Maps when a link cannot be opened.
+ */
+export function encodePlusCode({ latitude, longitude }: Coordinates) {
+  const maxLat = 180 * PLUS_CODE_UNITS - 1;
+  const maxLng = 360 * PLUS_CODE_UNITS;
+  let lat = Math.min(Math.max(Math.floor((latitude + 90) * PLUS_CODE_UNITS + 1e-6), 0), maxLat);
+  let lng = ((Math.floor((longitude + 180) * PLUS_CODE_UNITS + 1e-6) % maxLng) + maxLng) % maxLng;
+
+  let code = '';
+  PLUS_CODE_PLACES.forEach((place, index) => {
+    code += PLUS_CODE_ALPHABET[Math.floor(lat / place)] + PLUS_CODE_ALPHABET[Math.floor(lng / place)];
+    lat %= place;
+    lng %= place;
+    if (index === 3) code += '+';
+  });
+  return code;
+}
+
+/**
+ * Location text for messages: a link that opens everywhere plus plain-text
+ * coordinates for recipients whose phone will not open it.
+ */
+export function buildLocationText(coords: Coordinates, address?: string | null) {
+  const lines: string[] = [];
+  if (address) lines.push(`Near: ${address}`);
+  lines.push(`Map: ${buildMapLink('google', coords)}`);
+  lines.push(`Coordinates: ${formatDecimal(coords)} (${formatDms(coords)})`);
+  lines.push(`Plus Code: ${encodePlusCode(coords)}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,52 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+/** Android channel for time-critical safety prompts. */
+export const SAFETY_CHANNEL_ID = 'safety-alerts';
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+let prepared: Promise<boolean> | null = null;
+
+/** Asks for permission and creates the Android channel once per launch. */
+export function prepareNotifications() {
+  prepared ??= (async () => {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(SAFETY_CHANNEL_ID, {
+        name: 'Safety alerts',
+        importance: Notifications.AndroidImportance.MAX,
+        vibrationPattern: [0, 500, 250, 500],
+        bypassDnd: true,
+      });
+    }
+    const { granted } = await Notifications.requestPermissionsAsync();
+    return granted;
+  })();
+  return prepared;
+}
+
+/** Schedules a notification at `date`. Resolves `null` if notifications are not allowed. */
+export async function scheduleAt(date: number, content: Notifications.NotificationContentInput) {
+  if (!(await prepareNotifications())) return null;
+  return Notifications.scheduleNotificationAsync({
+    content,
+    trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date, channelId: SAFETY_CHANNEL_ID },
+  });
+}
+
+export async function cancelScheduled(ids: string[]) {
+  await Promise.all(ids.map((id) => Notifications.cancelScheduledNotificationAsync(id)));
+}
+
+/** Shows a notification straight away. Resolves `null` if notifications are not allowed. */
+export async function notifyNow(content: Notifications.NotificationContentInput) {
+  if (!(await prepareNotifications())) return null;
+  return Notifications.scheduleNotificationAsync({ content, trigger: { channelId: SAFETY_CHANNEL_ID } });
+}
@@ -0,0 +1,89 @@
+import { getRecordingPermissionsAsync, requestRecordingPermissionsAsync } from 'expo-audio';
+import { Camera } from 'expo-camera';
+import * as Contacts from 'expo-contacts';
+import * as Location from 'expo-location';
+import * as Notifications from 'expo-notifications';
+import { Linking } from 'react-native';
+
+export type PermissionId = 'location' | 'backgroundLocation' | 'notifications' | 'microphone' | 'camera' | 'contacts';
+
+export interface PermissionHealth {
+  id: PermissionId;
+  label: string;
+  /** What stops working without it, shown next to a missing permission. */
+  purpose: string;
+  granted: boolean;
+  /** `false` once the OS will no longer prompt; only Settings can grant it then. */
+  canAskAgain: boolean;
+}
+
+interface PermissionResult {
+  granted: boolean;
+  canAskAgain: boolean;
+}
+
+const PERMISSIONS: Record<
+  PermissionId,
+  { label: string; purpose: string; get: () => Promise<PermissionResult>; request: () => Promise<PermissionResult> }
+> = {
+  location: {
+    label: 'Location',
+    purpose: 'Your position is included in every SOS.',
+    get: Location.getForegroundPermissionsAsync,
+    request: Location.requestForegroundPermissionsAsync,
+  },
+  backgroundLocation: {
+    label: 'Background location',
+    purpose: 'Keeps live tracking going with the screen off.',
+    get: Location.getBackgroundPermissionsAsync,
+    request: Location.requestBackgroundPermissionsAsync,
+  },
+  notifications: {
+    label: 'Notifications',
+    purpose: 'Safewalk reminders and fake calls reach you in the background.',
+    get: Notifications.getPermissionsAsync,
+    request: Notifications.requestPermissionsAsync,
+  },
+  microphone: {
+    label: 'Microphone',
+    purpose: 'Audio evidence is recorded during an emergency.',
+    get: getRecordingPermissionsAsync,
+    request: requestRecordingPermissionsAsync,
+  },
+  camera: {
+    label: 'Camera',
+    purpose: 'Photos are taken automatically when SOS fires.',
+    get: Camera.getCameraPermissionsAsync,
+    request: Camera.requestCameraPermissionsAsync,
+  },
+  contacts: {
+    label: 'Contacts',
+    purpose: 'Priority contacts are picked from your address book.',
+    get: Contacts.getPermissionsAsync,
+    request: Contacts.requestPermissionsAsync,
+  },
+};
+
+export async function checkPermissions(): Promise<PermissionHealth[]> {
+  return Promise.all(
+    (Object.keys(PERMISSIONS) as PermissionId[]).map(async (id) => {
+      const { label, purpose, get } = PERMISSIONS[id];
+      try {
+        const { granted, canAskAgain } = await get();
+        return { id, label, purpose, granted, canAskAgain };
+      } catch {
+        // Unsupported on this platform (e.g. web); nothing the user can fix.
+        return { id, label, purpose, granted: true, canAskAgain: false };
+      }
+    })
+  );
+}
+
+/** Prompts again where the OS still allows it, otherwise opens the app's Settings page. */
+export async function fixPermission({ id, canAskAgain }: PermissionHealth) {
+  if (canAskAgain) {
+    await PERMISSIONS[id].request();
+  } else {
+    await Linking.openSettings();
+  }
+}
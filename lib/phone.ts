@@ -0,0 +1,42 @@
+import { parsePhoneNumberFromString, type CountryCode } from 'libphonenumber-js/max';
+
+export type LineType = 'mobile' | 'landline' | 'either' | 'other';
+
+export interface ParsedPhone {
+  /** `+<country code><number>`: the form contacts are stored, texted and dialled in. */
+  e164: string;
+  lineType: LineType;
+}
+
+/**
+ * Parses a number as typed or stored in the address book. National numbers,
+ * with or without a trunk prefix, are read as belonging to `region`.
+ * Returns `null` for anything that is not a valid, complete number.
+ */
+export function parsePhone(raw: string, region: string): ParsedPhone | null {
+  const parsed = parsePhoneNumberFromString(raw, region.toUpperCase() as CountryCode);
+  if (!parsed?.isValid()) return null;
+  const type = parsed.getType();
+  const lineType: LineType =
+    type === 'MOBILE' ? 'mobile' : type === 'FIXED_LINE' ? 'landline' : type === 'FIXED_LINE_OR_MOBILE' ? 'either' : 'other';
+  return { e164: parsed.number, lineType };
+}
+
+/** The E.164 form when the number parses, else the input trimmed, so nothing is lost. */
+export function normalizePhone(raw: string, region: string) {
+  return parsePhone(raw, region)?.e164 ?? raw.trim();
+}
+
+export function samePhone(a: string, b: string, region: string) {
+  return normalizePhone(a, region) === normalizePhone(b, region);
+}
+
+/** Landlines cannot receive the SMS alerts; they can only be called. */
+export function canReceiveSms(phone: ParsedPhone) {
+  return phone.lineType !== 'landline';
+}
+
+/** Spaced international form for display, e.g. "+91 98765 43210". */
+export function formatPhone(phone: string) {
+  return parsePhoneNumberFromString(phone)?.formatInternational() ?? phone;
+}
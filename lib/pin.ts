@@ -0,0 +1,121 @@
+import { bytesToHex } from '@noble/ciphers/utils';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+
+import { createStore } from '@/lib/store';
+
+/**
+ * `cancel` stands an SOS down. `duress` appears to, but keeps the alert
+ * running for someone forced to cancel at the attacker's demand.
+ */
+export type PinKind = 'cancel' | 'duress';
+
+const PIN_KINDS: PinKind[] = ['cancel', 'duress'];
+
+export const PIN_LENGTH = { min: 4, max: 8 };
+
+/** Wrong guesses allowed before entry is locked for a while. */
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_MS = 30_000;
+
+const storageKey = (kind: PinKind) => `sosdost.pin.${kind}`;
+/** Kept with the PINs so closing the app does not reset the count. */
+const LOCKOUT_KEY = 'sosdost.pin.lockout';
+
+/** Which PINs have been set, so screens can offer setup without reading secrets. */
+export const pinStore = createStore<Record<PinKind, boolean>>({ cancel: false, duress: false });
+
+interface Lockout {
+  failedAttempts: number;
+  lockedUntil: number;
+}
+
+let lockout: Lockout = { failedAttempts: 0, lockedUntil: 0 };
+
+function isLockout(value: unknown): value is Lockout {
+  if (typeof value !== 'object' || value === null) return false;
+  const { failedAttempts, lockedUntil } = value as Lockout;
+  return Number.isInteger(failedAttempts) && typeof lockedUntil === 'number';
+}
+
+async function loadLockout() {
+  try {
+    const saved: unknown = JSON.parse((await SecureStore.getItemAsync(LOCKOUT_KEY)) ?? 'null');
+    if (isLockout(saved)) lockout = saved;
+  } catch (error) {
+    console.warn('Failed to load PIN lockout:', error);
+  }
+}
+
+/** A failed save still locks entry until the app is closed; it never blocks a PIN check. */
+async function updateLockout(next: Lockout) {
+  lockout = next;
+  try {
+    await SecureStore.setItemAsync(LOCKOUT_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn('Failed to save PIN lockout:', error);
+  }
+}
+
+async function hashPin(pin: string, salt: string) {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+}
+
+export function isValidPin(pin: string) {
+  return /^\d+$/.test(pin) && pin.length >= PIN_LENGTH.min && pin.length <= PIN_LENGTH.max;
+}
+
+export async function loadPins() {
+  const [cancel, duress] = await Promise.all(
+    PIN_KINDS.map(async (kind) => (await SecureStore.getItemAsync(storageKey(kind))) !== null)
+  );
+  pinStore.setState({ cancel, duress });
+  await loadLockout();
+}
+
+async function matches(kind: PinKind, pin: string) {
+  const stored = await SecureStore.getItemAsync(storageKey(kind));
+  if (!stored) return false;
+  const [salt, hash] = stored.split(':');
+  return (await hashPin(pin, salt)) === hash;
+}
+
+export async function setPin(kind: PinKind, pin: string) {
+  if (!isValidPin(pin)) throw new Error(`PIN must be ${PIN_LENGTH.min}–${PIN_LENGTH.max} digits`);
+  const others = PIN_KINDS.filter((other) => other !== kind);
+  for (const other of others) {
+    if (await matches(other, pin)) throw new Error(`Choose a PIN different from your ${other} PIN`);
+  }
+  const salt = bytesToHex(Crypto.getRandomBytes(16));
+  await SecureStore.setItemAsync(storageKey(kind), `${salt}:${await hashPin(pin, salt)}`);
+  pinStore.setState((pins) => ({ ...pins, [kind]: true }));
+}
+
+export async function clearPin(kind: PinKind) {
+  await SecureStore.deleteItemAsync(storageKey(kind));
+  pinStore.setState((pins) => ({ ...pins, [kind]: false }));
+}
+
+/** `ok` for the cancel PIN, `duress` for the duress PIN. */
+export type PinCheck = 'ok' | 'duress' | 'wrong' | 'locked';
+
+/**
+ * Compares `pin` with the stored PINs, locking entry after repeated misses.
+ * Both are checked on every attempt so the two take equally long to accept.
+ * The count is saved before answering, so restarting the app cannot reset it.
+ */
+export async function checkPin(pin: string): Promise<PinCheck> {
+  if (Date.now() < lockout.lockedUntil) return 'locked';
+  const [isCancel, isDuress] = await Promise.all(PIN_KINDS.map((kind) => matches(kind, pin)));
+  if (isCancel || isDuress) {
+    if (lockout.failedAttempts > 0) await updateLockout({ failedAttempts: 0, lockedUntil: 0 });
+    return isCancel ? 'ok' : 'duress';
+  }
+  const failedAttempts = lockout.failedAttempts + 1;
+  if (failedAttempts >= MAX_ATTEMPTS) {
+    await updateLockout({ failedAttempts: 0, lockedUntil: Date.now() + LOCKOUT_MS });
+    return 'locked';
+  }
+  await updateLockout({ ...lockout, failedAttempts });
+  return 'wrong';
+}
@@ -0,0 +1,36 @@
+import { createId } from '@/lib/id';
+import type { Coordinates } from '@/lib/location-links';
+import { createPersistedStore } from '@/lib/storage';
+
+export interface SavedPlace extends Coordinates {
+  id: string;
+  name: string;
+}
+
+function isSavedPlace(value: unknown): value is SavedPlace {
+  if (typeof value !== 'object' || value === null) return false;
+  const place = value as SavedPlace;
+  return (
+    typeof place.id === 'string' &&
+    typeof place.name === 'string' &&
+    typeof place.latitude === 'number' &&
+    typeof place.longitude === 'number'
+  );
+}
+
+export const placesStore = createPersistedStore<SavedPlace[]>({
+  key: 'sosdost.places',
+  version: 1,
+  defaultValue: [],
+  validate: (data): data is SavedPlace[] => Array.isArray(data) && data.every(isSavedPlace),
+});
+
+export function savePlace(name: string, coords: Coordinates) {
+  const place: SavedPlace = { id: createId('place'), name, ...coords };
+  placesStore.setState((places) => [...places, place]);
+  return place;
+}
+
+export function removePlace(id: string) {
+  placesStore.setState((places) => places.filter((place) => place.id !== id));
+}
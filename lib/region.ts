@@ -0,0 +1,74 @@
+import * as Location from 'expo-location';
+
+import { applyServiceContacts, contactsStore } from '@/lib/contacts';
+import { numbersFor } from '@/lib/emergency-numbers';
+import { distanceMeters } from '@/lib/geo';
+import type { Coordinates } from '@/lib/location-links';
+import { settingsStore } from '@/lib/settings';
+import { createPersistedStore } from '@/lib/storage';
+import { trackingStore } from '@/lib/tracking';
+
+export interface RegionState {
+  /** ISO 3166-1 alpha-2 code from the last reverse geocode. */
+  detected: string | null;
+  /** Where that geocode was made, to tell when the user has travelled. */
+  detectedFrom: Coordinates | null;
+}
+
+/** The app's original numbers, used until a location has been seen. */
+export const DEFAULT_REGION = 'IN';
+/** Moving further than this from the last check looks the region up again. */
+const RECHECK_DISTANCE_M = 25_000;
+
+export const regionStore = createPersistedStore<RegionState>({
+  key: 'sosdost.region',
+  version: 1,
+  defaultValue: { detected: null, detectedFrom: null },
+  validate: (data): data is RegionState =>
+    typeof data === 'object' &&
+    data !== null &&
+    ((data as RegionState).detected === null || typeof (data as RegionState).detected === 'string'),
+});
+
+export function currentRegion() {
+  return settingsStore.getState().regionOverride ?? regionStore.getState().detected ?? DEFAULT_REGION;
+}
+
+/** Records the country a reverse geocode placed the user in. */
+export function noteRegion(isoCountryCode: string | null | undefined, from: Coordinates) {
+  if (!isoCountryCode) return;
+  regionStore.setState({
+    detected: isoCountryCode.toUpperCase(),
+    detectedFrom: { latitude: from.latitude, longitude: from.longitude },
+  });
+}
+
+let lookingUp = false;
+
+async function recheckRegion(from: Coordinates) {
+  lookingUp = true;
+  try {
+    const [place] = await Location.reverseGeocodeAsync(from);
+    noteRegion(place?.isoCountryCode, from);
+  } catch {
+    // Offline or rate limited; the next fix will try again.
+  } finally {
+    lookingUp = false;
+  }
+}
+
+trackingStore.subscribe(() => {
+  const { lastFix } = trackingStore.getState();
+  const { detectedFrom } = regionStore.getState();
+  if (!lastFix || !detectedFrom || lookingUp || !regionStore.isHydrated()) return;
+  if (distanceMeters(lastFix, detectedFrom) > RECHECK_DISTANCE_M) recheckRegion(lastFix);
+});
+
+function syncServiceContacts() {
+  if (!contactsStore.isHydrated() || !regionStore.isHydrated() || !settingsStore.isHydrated()) return;
+  applyServiceContacts(numbersFor(currentRegion()));
+}
+
+regionStore.subscribe(syncServiceContacts);
+settingsStore.subscribe(syncServiceContacts);
+contactsStore.subscribe(syncServiceContacts);
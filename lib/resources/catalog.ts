@@ -0,0 +1,71 @@
+import { toDialable } from '@/lib/calls';
+import { EMERGENCY_NUMBERS, type ServiceKind } from '@/lib/emergency-numbers';
+import { en } from '@/lib/resources/en';
+import type { ResourceBundle } from '@/lib/resources/types';
+
+/** Add a translation by writing another bundle and listing it here. */
+const BUNDLES: Record<string, ResourceBundle> = { en };
+
+const FALLBACK_LANGUAGE = 'en';
+
+const SERVICE_ORDER: ServiceKind[] = ['emergency', 'police', 'ambulance', 'fire', 'women', 'child'];
+
+export interface Helpline {
+  id: string;
+  region: string;
+  regionName: string;
+  name: string;
+  phone: string;
+  hours?: string;
+}
+
+export function deviceLanguage() {
+  return Intl.DateTimeFormat().resolvedOptions().locale.split('-')[0].toLowerCase();
+}
+
+/** The bundle for a language, falling back to English when there is no translation. */
+export function resourcesFor(language: string = deviceLanguage()) {
+  return BUNDLES[language] ?? BUNDLES[FALLBACK_LANGUAGE];
+}
+
+/**
+ * Every region's services, plus the bundle's extra lines. Services that share
+ * a number become one row, e.g. "Police · Ambulance · Fire".
+ */
+export function buildHelplineDirectory(bundle: ResourceBundle): Helpline[] {
+  const lines: Helpline[] = [];
+  for (const [region, numbers] of Object.entries(EMERGENCY_NUMBERS)) {
+    const byPhone = new Map<string, ServiceKind[]>();
+    for (const kind of SERVICE_ORDER) {
+      const phone = numbers[kind];
+      if (phone) byPhone.set(phone, [...(byPhone.get(phone) ?? []), kind]);
+    }
+    for (const [phone, kinds] of byPhone) {
+      lines.push({
+        id: `${region}-${kinds[0]}`,
+        region,
+        regionName: numbers.name,
+        name: kinds.map((kind) => bundle.serviceLabels[kind]).join(' · '),
+        phone,
+      });
+    }
+  }
+  bundle.helplines.forEach((line, i) => {
+    lines.push({ id: `${line.region}-extra-${i}`, regionName: EMERGENCY_NUMBERS[line.region]?.name ?? line.region, ...line });
+  });
+  return lines;
+}
+
+/**
+ * With no query, the lines for `region`; otherwise every line whose name,
+ * country or number matches all the words typed.
+ */
+export function searchHelplines(directory: Helpline[], query: string, region: string) {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return directory.filter((line) => line.region === region);
+  return directory.filter((line) => {
+    const haystack = `${line.name} ${line.regionName} ${line.region}`.toLowerCase();
+    const digits = toDialable(line.phone);
+    return words.every((word) => haystack.includes(word) || (/^\+?\d+$/.test(word) && digits.includes(word)));
+  });
+}
@@ -0,0 +1,151 @@
+import type { ResourceBundle } from '@/lib/resources/types';
+
+export const en: ResourceBundle = {
+  language: 'en',
+  version: 1,
+  reviewedOn: '2026-10-19',
+  serviceLabels: {
+    police: 'Police',
+    ambulance: 'Ambulance',
+    fire: 'Fire',
+    emergency: 'Emergency (all services)',
+    women: "Women's helpline",
+    child: 'Child helpline',
+  },
+  sections: [
+    {
+      id: 'first-aid',
+      title: 'First Aid',
+      guides: [
+        {
+          id: 'cpr',
+          title: 'Someone is not breathing (CPR)',
+          warning: 'Call an ambulance first, or have someone else call while you start.',
+          steps: [
+            'Check for danger, then shout and gently shake their shoulders.',
+            'If they do not respond and are not breathing normally, lay them on their back on a firm surface.',
+            'Place the heel of one hand in the centre of the chest, the other hand on top.',
+            'Push hard and fast: about 5 cm deep, 100–120 times a minute.',
+            'If trained, give 2 rescue breaths after every 30 compressions; otherwise keep pushing.',
+            'If a defibrillator (AED) arrives, switch it on and follow its voice prompts.',
+            'Do not stop until help takes over or they start breathing normally.',
+          ],
+        },
+        {
+          id: 'bleeding',
+          title: 'Heavy bleeding',
+          warning: 'Call an ambulance if the bleeding is heavy or will not stop.',
+          steps: [
+            'Press firmly on the wound with a clean cloth, or your hand if nothing else is available.',
+            'Keep pressing without lifting to check for at least 10 minutes.',
+            'If blood soaks through, add more cloth on top and keep pressing.',
+            'Raise the injured part above the heart if it is not broken.',
+            'Keep them lying down and warm while you wait for help.',
+          ],
+        },
+        {
+          id: 'choking',
+          title: 'Choking',
+          steps: [
+            'If they can cough, encourage them to keep coughing.',
+            'If they cannot cough, speak or breathe, lean them forward and give up to 5 firm back blows between the shoulder blades.',
+            'If that fails, stand behind them, make a fist above the navel and pull sharply inwards and upwards up to 5 times.',
+            'Alternate back blows and abdominal thrusts until the object comes out.',
+            'If they become unresponsive, call an ambulance and start CPR.',
+          ],
+        },
+        {
+          id: 'burns',
+          title: 'Burns',
+          steps: [
+            'Cool the burn under cool running water for at least 20 minutes. Do not use ice.',
+            'Remove rings, watches or clothing near the burn unless stuck to the skin.',
+            'Cover loosely with cling film or a clean, non-fluffy dressing.',
+            'Do not apply creams, butter or toothpaste.',
+            'Get medical help for burns larger than their palm, on the face, hands or genitals, or from chemicals or electricity.',
+          ],
+        },
+        {
+          id: 'recovery-position',
+          title: 'Unconscious but breathing',
+          steps: [
+            'Kneel beside them and place the arm nearest you at a right angle.',
+            'Bring the far arm across the chest and hold the back of their hand against their cheek.',
+            'Bend the far knee up and roll them towards you onto their side.',
+            'Tilt the head back slightly to keep the airway open.',
+            'Call an ambulance and keep checking their breathing until it arrives.',
+          ],
+        },
+      ],
+    },
+    {
+      id: 'emergencies',
+      title: 'In an Emergency',
+      guides: [
+        {
+          id: 'followed',
+          title: 'You think you are being followed',
+          steps: [
+            'Do not go home; head for a busy, well-lit place such as a shop, station or restaurant.',
+            'Cross the street or change direction to confirm it.',
+            'Call someone you trust and stay on the line, or start a Safewalk.',
+            'Tell staff or security where you are and ask them to call the police.',
+            'Note a description: height, clothing, vehicle and number plate.',
+          ],
+        },
+        {
+          id: 'harassment',
+          title: 'Harassment in public or on transport',
+          steps: [
+            'Move towards other people, the driver or a staff member.',
+            'Say clearly and loudly what is happening so others notice.',
+            'If it is safe, record audio or photos from the SOS tab as evidence.',
+            'Report it to the transport operator and the police, with the time and place.',
+          ],
+        },
+        {
+          id: 'violence-at-home',
+          title: 'Violence at home',
+          warning: 'If you are in immediate danger, call the police.',
+          steps: [
+            'Move away from rooms with weapons or no exit, such as the kitchen or bathroom.',
+            'Agree a code word with a trusted contact that means "call for help".',
+            'Keep your phone charged and important documents somewhere you can reach quickly.',
+            'Call the women\'s or domestic abuse helpline for confidential advice and a safety plan.',
+          ],
+        },
+        {
+          id: 'fire',
+          title: 'Fire',
+          steps: [
+            'Get everyone out; do not stop to collect belongings.',
+            'Stay low under smoke and feel doors before opening; do not open a hot door.',
+            'Never use a lift.',
+            'Call the fire service once outside, and do not go back in.',
+            'If trapped, close the door, block gaps with cloth and signal from a window.',
+          ],
+        },
+        {
+          id: 'road-accident',
+          title: 'Road accident',
+          steps: [
+            'Make the scene safe: hazard lights on, engines off, stay clear of traffic.',
+            'Call an ambulance and the police, giving the exact location.',
+            'Do not move injured people unless they are in immediate danger.',
+            'Do not remove a motorcyclist\'s helmet.',
+          ],
+        },
+      ],
+    },
+  ],
+  helplines: [
+    { region: 'US', name: 'Suicide & Crisis Lifeline', phone: '988', hours: '24/7' },
+    { region: 'CA', name: 'Suicide Crisis Helpline', phone: '988', hours: '24/7' },
+    { region: 'GB', name: 'Samaritans', phone: '116 123', hours: '24/7' },
+    { region: 'AU', name: 'Lifeline', phone: '13 11 14', hours: '24/7' },
+    { region: 'IN', name: 'Tele-MANAS mental health', phone: '14416', hours: '24/7' },
+    { region: 'IN', name: 'Cyber crime helpline', phone: '1930' },
+    { region: 'IN', name: 'Senior citizens helpline', phone: '14567' },
+  ],
+  disclaimer: 'These guides are not a substitute for professional help. In an emergency, call the local emergency number first.',
+};
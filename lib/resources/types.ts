@@ -0,0 +1,40 @@
+import type { ServiceKind } from '@/lib/emergency-numbers';
+
+export interface Guide {
+  id: string;
+  title: string;
+  steps: string[];
+  /** Shown above the steps, e.g. when to call for help first. */
+  warning?: string;
+}
+
+export interface GuideSection {
+  id: string;
+  title: string;
+  guides: Guide[];
+}
+
+/** A line beyond the core services in `EMERGENCY_NUMBERS`, e.g. a crisis line. */
+export interface ExtraHelpline {
+  /** ISO 3166-1 alpha-2 region the line serves. */
+  region: string;
+  name: string;
+  phone: string;
+  hours?: string;
+}
+
+/**
+ * Everything on the Resources tab in one language. Bundles ship inside the
+ * app and are read synchronously, so none of it needs a connection.
+ */
+export interface ResourceBundle {
+  /** BCP 47 language subtag, e.g. "en". */
+  language: string;
+  /** Bumped whenever the content changes, and shown with the review date. */
+  version: number;
+  reviewedOn: string;
+  serviceLabels: Record<ServiceKind, string>;
+  sections: GuideSection[];
+  helplines: ExtraHelpline[];
+  disclaimer: string;
+}
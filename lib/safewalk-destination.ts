@@ -0,0 +1,131 @@
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+
+import { dispatchAlert } from '@/lib/alerts/dispatch';
+import { dropQueuedAlert, outboxStore } from '@/lib/alerts/outbox';
+import { alertRecipients, contactsStore } from '@/lib/contacts';
+import { isWithinRadius } from '@/lib/geo';
+import { historyStore, noteSafewalkOutcome } from '@/lib/history';
+import { incidentStore, logIncident } from '@/lib/incident';
+import { buildLocationText } from '@/lib/location-links';
+import { finishSafewalk, safewalkStore, type Safewalk } from '@/lib/safewalk';
+import { settingsStore } from '@/lib/settings';
+import { trackingStore } from '@/lib/tracking';
+
+export const ARRIVAL_GEOFENCE_TASK = 'sosdost.safewalk-arrival';
+
+/** An overdue notice still waiting in the outbox is dropped once the walk arrives. */
+const noticeTopic = (walk: Safewalk) => `safewalk:${walk.id}`;
+
+/**
+ * Ends the walk and tells contacts the user arrived. `unattended` arrivals
+ * (detected in the background) only use transports that need no interaction,
+ * and wait in the outbox when none can send.
+ */
+export async function arriveSafewalk(method: 'manual' | 'geofence', unattended = false) {
+  const walk = safewalkStore.getState();
+  if (!walk) return;
+  noteSafewalkOutcome(walk.id, method === 'geofence' ? 'Arrived (detected automatically)' : 'Arrived');
+  await finishSafewalk();
+  dropQueuedAlert(noticeTopic(walk));
+
+  const recipients = alertRecipients('safewalk');
+  if (recipients.length === 0) return;
+  const place = walk.destination ? ` at ${walk.destination.name}` : '';
+  const how = method === 'geofence' ? ' (detected automatically)' : '';
+  await dispatchAlert(recipients, `✅ I have arrived safely${place}${how}. Thanks for looking out for me. — SosDost`, {
+    background: unattended,
+    topic: noticeTopic(walk),
+  });
+}
+
+function hasArrived(walk: Safewalk) {
+  const { lastFix } = trackingStore.getState();
+  if (!walk.destination || !lastFix || lastFix.at < walk.startedAt) return false;
+  return isWithinRadius(lastFix, lastFix.accuracy, walk.destination, walk.destination.radiusM);
+}
+
+trackingStore.subscribe(() => {
+  const walk = safewalkStore.getState();
+  // Arriving late still counts, and stops any escalation in progress.
+  if (walk && hasArrived(walk)) {
+    arriveSafewalk('geofence').catch((error) => console.warn('Arrival notice failed:', error));
+  }
+});
+
+let overdueNotifiedFor: string | null = null;
+
+/** Destination walks tell contacts as soon as they are overdue, before any SOS. */
+async function sendOverdueNotice(walk: Safewalk) {
+  if (overdueNotifiedFor === walk.id || !walk.destination) return;
+  overdueNotifiedFor = walk.id;
+  const recipients = alertRecipients('safewalk');
+  if (recipients.length === 0) return;
+
+  const lines = [`⚠️ I have not arrived at ${walk.destination.name} when expected and have not checked in.`];
+  const { lastFix } = trackingStore.getState();
+  if (lastFix) lines.push(`Last known position:\n${buildLocationText(lastFix)}`);
+  logIncident('safewalk', `Overdue at ${walk.destination.name}`);
+  await dispatchAlert(recipients, lines.join('\n'), { background: true, topic: noticeTopic(walk) });
+}
+
+/** The walk the registered geofence watches for, if any. */
+async function geofencedWalkId() {
+  if (!(await TaskManager.isTaskRegisteredAsync(ARRIVAL_GEOFENCE_TASK))) return null;
+  const options = await TaskManager.getTaskOptionsAsync<{ regions?: Location.LocationRegion[] }>(ARRIVAL_GEOFENCE_TASK);
+  return options?.regions?.[0]?.identifier ?? '';
+}
+
+/** Points the geofence at `walk`'s destination, replacing one left over from an earlier walk. */
+async function syncGeofence(walk: Safewalk | null) {
+  const registeredFor = await geofencedWalkId();
+  if (walk?.destination) {
+    if (registeredFor === walk.id) return;
+    if (registeredFor !== null) await Location.stopGeofencingAsync(ARRIVAL_GEOFENCE_TASK);
+    const { status } = await Location.requestBackgroundPermissionsAsync();
+    if (status !== 'granted') return;
+    await Location.startGeofencingAsync(ARRIVAL_GEOFENCE_TASK, [
+      {
+        identifier: walk.id,
+        latitude: walk.destination.latitude,
+        longitude: walk.destination.longitude,
+        radius: walk.destination.radiusM,
+        notifyOnEnter: true,
+        notifyOnExit: false,
+      },
+    ]);
+  } else if (registeredFor !== null) {
+    await Location.stopGeofencingAsync(ARRIVAL_GEOFENCE_TASK);
+  }
+}
+
+// Syncs run one after another so two quick changes cannot both start a geofence.
+let geofenceSync = Promise.resolve();
+
+safewalkStore.subscribe(() => {
+  const walk = safewalkStore.getState();
+  geofenceSync = geofenceSync
+    .then(() => syncGeofence(walk))
+    .catch((error) => console.warn('Arrival geofence unavailable:', error));
+  if (walk?.status === 'expired') {
+    sendOverdueNotice(walk).catch((error) => console.warn('Overdue notice failed:', error));
+  }
+});
+
+TaskManager.defineTask<{ eventType: Location.GeofencingEventType; region: Location.LocationRegion }>(
+  ARRIVAL_GEOFENCE_TASK,
+  async ({ data, error }) => {
+    if (error || data.eventType !== Location.GeofencingEventType.Enter) return;
+    await Promise.all([
+      safewalkStore.hydrate(),
+      incidentStore.hydrate(),
+      contactsStore.hydrate(),
+      settingsStore.hydrate(),
+      outboxStore.hydrate(),
+      historyStore.hydrate(),
+    ]);
+    if (safewalkStore.getState()?.id === data.region.identifier) {
+      await arriveSafewalk('geofence', true);
+    }
+  }
+);
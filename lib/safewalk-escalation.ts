@@ -0,0 +1,152 @@
+import * as BackgroundTask from 'expo-background-task';
+import * as Haptics from 'expo-haptics';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+
+import { startAlarm, stopAlarm } from '@/lib/alarm';
+import { outboxStore } from '@/lib/alerts/outbox';
+import { contactsStore } from '@/lib/contacts';
+import { historyStore, noteSafewalkOutcome } from '@/lib/history';
+import { incidentStore } from '@/lib/incident';
+import { buildMapLink } from '@/lib/location-links';
+import { SAFETY_CHANNEL_ID } from '@/lib/notifications';
+import {
+  checkSafewalkExpiry,
+  finishSafewalk,
+  SAFEWALK_TASK,
+  safewalkStore,
+  type Safewalk,
+} from '@/lib/safewalk';
+import { settingsStore } from '@/lib/settings';
+import { activateSos } from '@/lib/sos';
+
+/**
+ * Prompts grow louder through the grace period after a walk expires:
+ * haptics first, then the alarm, then a notification, then SOS.
+ */
+export type GraceStage = 'haptics' | 'alarm' | 'notification' | 'sos';
+
+export function graceStageAt(walk: Safewalk, graceMs: number, now: number = Date.now()): GraceStage | null {
+  if (walk.status !== 'expired') return null;
+  const elapsed = now - walk.deadline;
+  if (elapsed >= graceMs) return 'sos';
+  if (elapsed >= (graceMs * 2) / 3) return 'notification';
+  if (elapsed >= graceMs / 3) return 'alarm';
+  return 'haptics';
+}
+
+export function buildSafewalkContext(walk: Safewalk) {
+  const started = new Date(walk.startedAt).toLocaleTimeString();
+  const lines = [`I did not check in after my Safewalk timer ended.`];
+  lines.push(
+    walk.startLocation
+      ? `My walk started at ${started} from: ${buildMapLink('google', walk.startLocation)}`
+      : `My walk started at ${started}.`
+  );
+  return lines;
+}
+
+let ticker: ReturnType<typeof setInterval> | null = null;
+let notifiedFor: string | null = null;
+let escalatingFor: string | null = null;
+
+function stopPrompts() {
+  if (ticker) clearInterval(ticker);
+  ticker = null;
+  stopAlarm();
+}
+
+/**
+ * Ends the grace period early and sends SOS for `walk`. Unattended, alerts
+ * no gateway can send wait in the outbox, and the walk's history says so.
+ */
+export async function escalateSafewalk(walk: Safewalk, unattended = false) {
+  if (escalatingFor === walk.id) return;
+  escalatingFor = walk.id;
+  stopPrompts();
+  noteSafewalkOutcome(walk.id, 'Escalated to SOS');
+  try {
+    const { report } = await activateSos({
+      reason: 'Safewalk expired without check-in',
+      context: buildSafewalkContext(walk),
+      unattended,
+    });
+    const queued = report?.results.filter((result) => result.status === 'queued').length ?? 0;
+    if (queued > 0) {
+      noteSafewalkOutcome(
+        walk.id,
+        `SOS to ${queued} contact(s) could not be sent in the background; waiting for SosDost to be opened`
+      );
+    }
+  } catch (error) {
+    // Leave the walk expired so the next check tries again.
+    escalatingFor = null;
+    noteSafewalkOutcome(walk.id, `SOS failed: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+  await finishSafewalk();
+}
+
+/**
+ * Applies whatever the current grace stage calls for. Called every second
+ * in the foreground and once per wake-up from the background task.
+ */
+export async function runGraceCheck(unattended = false) {
+  checkSafewalkExpiry();
+  const walk = safewalkStore.getState();
+  if (!walk) return;
+
+  const stage = graceStageAt(walk, settingsStore.getState().safewalkGraceSec * 1000);
+  if (stage === null) return;
+  if (stage === 'sos') {
+    await escalateSafewalk(walk, unattended);
+    return;
+  }
+  if (unattended) return;
+
+  Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+  if (stage === 'alarm' || stage === 'notification') {
+    await startAlarm();
+  }
+  if (stage === 'notification' && notifiedFor !== walk.id) {
+    notifiedFor = walk.id;
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Are you safe?',
+        body: 'SOS will be sent to your contacts in a few seconds unless you check in.',
+        priority: 'max',
+      },
+      trigger: { channelId: SAFETY_CHANNEL_ID },
+    });
+  }
+}
+
+safewalkStore.subscribe(() => {
+  const walk = safewalkStore.getState();
+  if (walk?.status !== 'expired') {
+    stopPrompts();
+    return;
+  }
+  ticker ??= setInterval(() => {
+    runGraceCheck().catch((error) => console.warn('Safewalk grace check failed:', error));
+  }, 1000);
+});
+
+// Runs headless when the OS wakes the app, so the walk must be loaded first.
+TaskManager.defineTask(SAFEWALK_TASK, async () => {
+  try {
+    // The incident and history too, so an SOS sent from here is kept for when the app opens.
+    await Promise.all([
+      safewalkStore.hydrate(),
+      incidentStore.hydrate(),
+      settingsStore.hydrate(),
+      contactsStore.hydrate(),
+      outboxStore.hydrate(),
+      historyStore.hydrate(),
+    ]);
+    await runGraceCheck(true);
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch {
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
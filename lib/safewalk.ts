@@ -0,0 +1,181 @@
+import * as BackgroundTask from 'expo-background-task';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { AppState } from 'react-native';
+
+import { alertRecipients } from '@/lib/contacts';
+import { createId } from '@/lib/id';
+import type { Coordinates } from '@/lib/location-links';
+import { cancelScheduled, scheduleAt } from '@/lib/notifications';
+import { settingsStore } from '@/lib/settings';
+import { createPersistedStore } from '@/lib/storage';
+import { startTracking, stopTracking } from '@/lib/tracking';
+
+export type SafewalkStatus = 'active' | 'expired';
+
+export interface SafewalkDestination extends Coordinates {
+  name: string;
+  /** Arrival counts once the walker is within this many metres. */
+  radiusM: number;
+}
+
+/**
+ * A walk is anchored to an absolute `deadline` rather than a ticking counter,
+ * so time spent suspended or killed still counts.
+ */
+export interface Safewalk {
+  id: string;
+  startedAt: number;
+  deadline: number;
+  startLocation: Coordinates | null;
+  /** `null` for a plain timed walk. */
+  destination: SafewalkDestination | null;
+  /** When a destination walk is expected to arrive; its `deadline` allows for delays. */
+  expectedArrivalAt: number | null;
+  status: SafewalkStatus;
+  notificationIds: string[];
+}
+
+export const SAFEWALK_TASK = 'sosdost.safewalk-check';
+
+/** How long before the deadline the user is nudged to check in. */
+const WARNING_BEFORE_MS = 2 * 60 * 1000;
+
+function isSafewalk(value: unknown): value is Safewalk {
+  if (typeof value !== 'object' || value === null) return false;
+  const walk = value as Safewalk;
+  return (
+    typeof walk.id === 'string' &&
+    typeof walk.startedAt === 'number' &&
+    typeof walk.deadline === 'number' &&
+    (walk.destination === null || typeof walk.destination?.name === 'string') &&
+    (walk.status === 'active' || walk.status === 'expired') &&
+    Array.isArray(walk.notificationIds)
+  );
+}
+
+export const safewalkStore = createPersistedStore<Safewalk | null>({
+  key: 'sosdost.safewalk',
+  version: 1,
+  defaultValue: null,
+  validate: (data): data is Safewalk | null => data === null || isSafewalk(data),
+});
+
+export function remainingSeconds(walk: Safewalk, now: number = Date.now()) {
+  return Math.max(0, Math.ceil((walk.deadline - now) / 1000));
+}
+
+export interface SafewalkOptions {
+  /** Minutes until the walk expires. */
+  minutes: number;
+  startLocation: Coordinates | null;
+  destination?: SafewalkDestination | null;
+  expectedMinutes?: number | null;
+}
+
+export async function startSafewalk({
+  minutes,
+  startLocation,
+  destination = null,
+  expectedMinutes = null,
+}: SafewalkOptions) {
+  const startedAt = Date.now();
+  const graceMs = settingsStore.getState().safewalkGraceSec * 1000;
+  const walk: Safewalk = {
+    id: createId('walk'),
+    startedAt,
+    deadline: startedAt + minutes * 60 * 1000,
+    startLocation,
+    destination,
+    expectedArrivalAt: expectedMinutes === null ? null : startedAt + expectedMinutes * 60 * 1000,
+    status: 'active',
+    notificationIds: [],
+  };
+  safewalkStore.setState(walk);
+
+  const scheduled = await Promise.all([
+    walk.deadline - WARNING_BEFORE_MS > startedAt
+      ? scheduleAt(walk.deadline - WARNING_BEFORE_MS, {
+          title: 'Safewalk ending soon',
+          body: 'Two minutes left. Open SosDost and tap "I have arrived" when you are safe.',
+        })
+      : null,
+    scheduleAt(walk.deadline, {
+      title: 'Safewalk timer ended',
+      body: 'Are you safe? Open SosDost to check in, or trigger SOS.',
+      priority: 'max',
+      data: { safewalkId: walk.id },
+    }),
+    scheduleAt(walk.deadline + (graceMs * 2) / 3, {
+      title: 'No check-in: SOS is about to be sent',
+      body: 'Open SosDost now and tap "I am Safe" to stop your contacts being alerted.',
+      priority: 'max',
+      data: { safewalkId: walk.id },
+    }),
+  ]);
+  const notificationIds = scheduled.filter((id): id is string => id !== null);
+  safewalkStore.setState((current) => (current?.id === walk.id ? { ...current, notificationIds } : current));
+
+  // A backup only: the OS runs background tasks at most every 15 minutes, and
+  // may not at all, so the scheduled notifications are what expiry relies on.
+  try {
+    await BackgroundTask.registerTaskAsync(SAFEWALK_TASK, { minimumInterval: 15 });
+  } catch (error) {
+    console.warn('Safewalk background check unavailable:', error);
+  }
+  return walk;
+}
+
+/** Ends the walk, whether the user arrived or acknowledged an expiry. */
+export async function finishSafewalk() {
+  const walk = safewalkStore.getState();
+  if (!walk) return;
+  safewalkStore.setState(null);
+  stopTracking('safewalk');
+  await cancelScheduled(walk.notificationIds);
+  if (await TaskManager.isTaskRegisteredAsync(SAFEWALK_TASK)) {
+    await BackgroundTask.unregisterTaskAsync(SAFEWALK_TASK);
+  }
+}
+
+/** Marks an overdue walk as expired. Safe to call from anywhere, any number of times. */
+export function checkSafewalkExpiry(now: number = Date.now()) {
+  const walk = safewalkStore.getState();
+  if (walk?.status !== 'active' || now < walk.deadline) return false;
+  safewalkStore.setState({ ...walk, status: 'expired' });
+  return true;
+}
+
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Re-arm the in-app timer whenever the walk changes, including after it is
+// restored from storage on launch.
+safewalkStore.subscribe(() => {
+  if (expiryTimer) clearTimeout(expiryTimer);
+  expiryTimer = null;
+
+  const walk = safewalkStore.getState();
+  if (walk?.status !== 'active') return;
+  if (checkSafewalkExpiry()) return;
+  expiryTimer = setTimeout(() => checkSafewalkExpiry(), walk.deadline - Date.now());
+  startTracking('safewalk', alertRecipients('tracking'));
+});
+
+AppState.addEventListener('change', (next) => {
+  if (next === 'active') checkSafewalkExpiry();
+});
+
+/** Whether a notification belongs to the walk in progress, so its arrival or tap can expire it. */
+export function isSafewalkNotification(notification: Notifications.Notification) {
+  const walk = safewalkStore.getState();
+  return walk !== null && notification.request.content.data?.safewalkId === walk.id;
+}
+
+// The deadline notification is delivered even when the JS timer is not
+// running; seeing it, or the user tapping it, marks the walk expired.
+Notifications.addNotificationReceivedListener((notification) => {
+  if (isSafewalkNotification(notification)) checkSafewalkExpiry();
+});
+Notifications.addNotificationResponseReceivedListener(({ notification }) => {
+  if (isSafewalkNotification(notification)) checkSafewalkExpiry();
+});
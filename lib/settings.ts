@@ -0,0 +1,78 @@
+import { createPersistedStore } from '@/lib/storage';
+import { SHAKE_PROFILES, type ShakeSensitivity } from '@/lib/triggers/shake';
+
+export interface SafetySettings {
+  /** How long the SOS button must be held before it fires. */
+  holdDurationMs: number;
+  /** HTTP endpoint that sends SMS without the composer. With `null`, unattended messages wait in the outbox. */
+  smsGatewayUrl: string | null;
+  /** Call priority contacts one by one after an SOS fires. */
+  escalationEnabled: boolean;
+  /** Seconds to wait for a call to be confirmed before moving to the next contact. */
+  escalationTimeoutSec: number;
+  /** Built-in service called when no personal contact confirms. */
+  escalationFinalContactId: string;
+  /** Minutes between live location messages while tracking. */
+  trackingUpdateIntervalMin: number;
+  /** Seconds after a Safewalk expires before SOS fires on its own. */
+  safewalkGraceSec: number;
+  /** Safety endpoint that receives vault uploads. `null` keeps evidence on the device. */
+  evidenceUploadUrl: string | null;
+  /** Region for built-in emergency numbers. `null` follows the device's location. */
+  regionOverride: string | null;
+  /** Seconds after a trigger during which SOS can be aborted before anything is sent. 0 sends at once. */
+  cancelWindowSec: number;
+  /** How hard the phone must be shaken to fire SOS, or `off`. */
+  shakeSensitivity: ShakeSensitivity | 'off';
+  /** Fire SOS on alternating volume presses while the app is running. */
+  volumeKeyTrigger: boolean;
+}
+
+export const DEFAULT_SETTINGS: SafetySettings = {
+  holdDurationMs: 2000,
+  smsGatewayUrl: null,
+  escalationEnabled: true,
+  escalationTimeoutSec: 30,
+  escalationFinalContactId: 'police',
+  trackingUpdateIntervalMin: 5,
+  safewalkGraceSec: 60,
+  evidenceUploadUrl: null,
+  regionOverride: null,
+  cancelWindowSec: 5,
+  shakeSensitivity: 'off',
+  volumeKeyTrigger: false,
+};
+
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isString = (value: unknown) => typeof value === 'string';
+const isNullableString = (value: unknown) => value === null || typeof value === 'string';
+const isShakeSensitivity = (value: unknown) =>
+  value === 'off' || (typeof value === 'string' && value in SHAKE_PROFILES);
+
+const FIELDS: { [K in keyof SafetySettings]: (value: unknown) => boolean } = {
+  holdDurationMs: isNumber,
+  smsGatewayUrl: isNullableString,
+  escalationEnabled: isBoolean,
+  escalationTimeoutSec: isNumber,
+  escalationFinalContactId: isString,
+  trackingUpdateIntervalMin: isNumber,
+  safewalkGraceSec: isNumber,
+  evidenceUploadUrl: isNullableString,
+  regionOverride: isNullableString,
+  cancelWindowSec: isNumber,
+  shakeSensitivity: isShakeSensitivity,
+  volumeKeyTrigger: isBoolean,
+};
+
+export const settingsStore = createPersistedStore<SafetySettings>({
+  key: 'sosdost.settings',
+  version: 1,
+  defaultValue: DEFAULT_SETTINGS,
+  validate: (data): data is SafetySettings =>
+    typeof data === 'object' &&
+    data !== null &&
+    (Object.keys(FIELDS) as (keyof SafetySettings)[]).every((field) =>
+      FIELDS[field]((data as Record<string, unknown>)[field])
+    ),
+});
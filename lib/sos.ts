@@ -0,0 +1,217 @@
+import { createAudioPlayer, setAudioModeAsync, type AudioPlayer } from 'expo-audio';
+import { Alert, AppState } from 'react-native';
+
+import { dispatchAlert } from '@/lib/alerts/dispatch';
+import { buildDuressMessage, buildSosMessage } from '@/lib/alerts/message';
+import type { DispatchReport } from '@/lib/alerts/types';
+import { alertRecipients, contactsStore } from '@/lib/contacts';
+import { startEscalation, stopEscalation } from '@/lib/escalation';
+import { incidentStore, isUnderDuress, logIncident, markDuress, moveIncident } from '@/lib/incident';
+import { checkPin, type PinCheck } from '@/lib/pin';
+import { settingsStore } from '@/lib/settings';
+import { createStore } from '@/lib/store';
+import { startTracking, trackingStore } from '@/lib/tracking';
+
+export interface SosOptions {
+  /** Recorded on the incident transition, e.g. "SOS button held to completion". */
+  reason: string;
+  address?: string | null;
+  /** Extra lines for the alert message, such as where a Safewalk began. */
+  context?: string[];
+  /**
+   * Nobody is looking at the screen (background task, incapacitated user):
+   * only send through transports that need no interaction and do not dial.
+   */
+  unattended?: boolean;
+}
+
+export interface SosResult {
+  activated: boolean;
+  /** `null` when there were no personal contacts to alert. */
+  report: DispatchReport | null;
+}
+
+/**
+ * The full SOS flow shared by every trigger: activates the incident, starts
+ * live tracking, alerts priority contacts and then runs the call chain.
+ */
+export async function activateSos({ reason, address, context, unattended = false }: SosOptions): Promise<SosResult> {
+  if (!moveIncident('active', reason)) return { activated: false, report: null };
+
+  const settings = settingsStore.getState();
+  const recipients = alertRecipients('sos');
+  // Not awaited so the alert never waits on a permission prompt; failures are logged on the incident.
+  startTracking('sos', alertRecipients('tracking'));
+
+  let report: DispatchReport | null = null;
+  if (recipients.length > 0) {
+    const { lastFix } = trackingStore.getState();
+    const message = buildSosMessage(lastFix && { ...lastFix, address }, context);
+    report = await dispatchAlert(recipients, message, { background: unattended });
+  }
+
+  if (!unattended && settings.escalationEnabled) {
+    startEscalation(contactsStore.getState(), {
+      timeoutSec: settings.escalationTimeoutSec,
+      finalContactId: settings.escalationFinalContactId,
+    });
+  }
+  return { activated: true, report };
+}
+
+/** When the cancel window closes; `null` outside a countdown. */
+export const countdownStore = createStore<{ deadline: number | null }>({ deadline: null });
+
+let countdownTimer: ReturnType<typeof setTimeout> | null = null;
+let beepTimer: ReturnType<typeof setInterval> | null = null;
+let beeper: AudioPlayer | null = null;
+let settleCountdown: ((result: SosResult) => void) | null = null;
+
+/** Never rejects: a silent countdown must still send the alert when it runs out. */
+async function beep() {
+  try {
+    if (!beeper) {
+      await setAudioModeAsync({ playsInSilentMode: true, shouldPlayInBackground: true });
+      beeper = createAudioPlayer(require('@/assets/sounds/beep.wav'));
+      beeper.volume = 1;
+    }
+    await beeper.seekTo(0);
+    beeper.play();
+  } catch (error) {
+    console.warn('Countdown beep failed:', error);
+  }
+}
+
+function stopCountdown() {
+  if (countdownTimer) clearTimeout(countdownTimer);
+  if (beepTimer) clearInterval(beepTimer);
+  countdownTimer = null;
+  beepTimer = null;
+  beeper?.remove();
+  beeper = null;
+  countdownStore.setState({ deadline: null });
+}
+
+/**
+ * Starts SOS from a user trigger. With a cancel window configured, the
+ * incident first beeps through `countdown` and resolves `activated: false`
+ * if it is aborted before anything is sent.
+ */
+export function triggerSos(options: SosOptions): Promise<SosResult> {
+  const { cancelWindowSec } = settingsStore.getState();
+  if (cancelWindowSec <= 0 || options.unattended) return activateSos(options);
+  if (!moveIncident('countdown', options.reason)) return Promise.resolve({ activated: false, report: null });
+
+  return new Promise((resolve, reject) => {
+    settleCountdown = resolve;
+    countdownStore.setState({ deadline: Date.now() + cancelWindowSec * 1000 });
+    beep();
+    beepTimer = setInterval(beep, 1000);
+    countdownTimer = setTimeout(() => {
+      settleCountdown = null;
+      stopCountdown();
+      activateSos({ ...options, reason: 'Cancel window elapsed' }).then(resolve, reject);
+    }, cancelWindowSec * 1000);
+  });
+}
+
+function summarizeDispatch(report: DispatchReport) {
+  const failed = report.results.filter((r) => r.status === 'failed' || r.status === 'cancelled');
+  if (failed.length === 0) {
+    return `Your location was sent to ${report.results.length} priority contact(s).`;
+  }
+  return `Could not alert: ${failed.map((r) => r.name).join(', ')}. Call them directly if you can.`;
+}
+
+/**
+ * Tells the user how a triggered SOS went: who was alerted, or that they
+ * should call for help themselves. `onSafe` offers to stand it down.
+ */
+export function reportSos(run: Promise<SosResult>, onSafe?: () => void) {
+  run
+    .then(({ activated, report }) => {
+      if (!activated) return;
+      Alert.alert(
+        '🚨 SOS ACTIVATED',
+        report ? summarizeDispatch(report) : 'You have no personal priority contacts to alert. Call emergency services.',
+        onSafe ? [{ text: 'I am Safe Now', onPress: onSafe, style: 'cancel' }] : undefined
+      );
+    })
+    .catch((error) => {
+      console.warn('SOS dispatch failed:', error);
+      Alert.alert(
+        'Alerts may not have been sent',
+        'Something went wrong while alerting your contacts. Call them or emergency services directly.'
+      );
+    });
+}
+
+export function abortCountdown() {
+  moveIncident('cancelled', 'Aborted during the cancel window');
+}
+
+incidentStore.subscribe(() => {
+  if (!settleCountdown || incidentStore.getState().phase === 'countdown') return;
+  const settle = settleCountdown;
+  settleCountdown = null;
+  stopCountdown();
+  settle({ activated: false, report: null });
+});
+
+/** Ends an active SOS. Callers verify the user first. */
+export function confirmSafe(method: string) {
+  return moveIncident('resolved', `User confirmed they are safe (${method})`);
+}
+
+/**
+ * Keeps the incident active behind a "safe" screen: escalation calls would
+ * give it away so they stop, while tracking, recording and location updates
+ * carry on and contacts are told quietly through background transports.
+ */
+async function standDownUnderDuress() {
+  if (isUnderDuress(incidentStore.getState())) return;
+  markDuress('Cancelled with the duress PIN');
+  stopEscalation();
+  const recipients = alertRecipients('sos');
+  if (recipients.length === 0) return;
+  await dispatchAlert(recipients, buildDuressMessage(trackingStore.getState().lastFix), { background: true });
+}
+
+/** Once alerts have gone out, standing down needs the cancel PIN. */
+export async function standDownWithPin(pin: string): Promise<PinCheck> {
+  const result = await checkPin(pin);
+  if (result === 'ok') confirmSafe('cancel PIN');
+  if (result === 'duress') {
+    // Only the history shows this, once the incident is over; the screen must still look safe.
+    standDownUnderDuress().catch((error) => logIncident('duress', `Duress notice failed: ${error}`));
+  }
+  return result;
+}
+
+let resumed = false;
+
+/**
+ * Picks an SOS back up once it is restored after the app was closed. A
+ * cancel window that never finished counts as run out, an active alert gets
+ * its live tracking back, and a hold that was never let go is dropped.
+ */
+function resumeSos() {
+  if (resumed || !incidentStore.isHydrated() || !contactsStore.isHydrated() || !settingsStore.isHydrated()) return;
+  resumed = true;
+  const { phase } = incidentStore.getState();
+  if (phase === 'arming') moveIncident('idle', 'SosDost closed during the hold');
+  if (phase === 'countdown') {
+    activateSos({
+      reason: 'SosDost closed during the cancel window',
+      unattended: AppState.currentState !== 'active',
+    }).catch((error) => logIncident('dispatch', `Alert failed: ${error}`));
+  }
+  if (phase === 'active') {
+    logIncident('restored', 'SosDost restarted; live tracking resumed');
+    startTracking('sos', alertRecipients('tracking'));
+  }
+}
+
+incidentStore.subscribe(resumeSos);
+contactsStore.subscribe(resumeSos);
+settingsStore.subscribe(resumeSos);
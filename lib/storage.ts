@@ -0,0 +1,150 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { createStore, type Listener, type Store } from '@/lib/store';
+
+/**
+ * Describes one versioned value in local storage.
+ * `migrations[n]` upgrades data written at version `n - 1` to version `n`.
+ * Values written before envelopes existed are treated as version 0.
+ */
+export interface PersistedSchema<T> {
+  key: string;
+  version: number;
+  defaultValue: T;
+  migrations?: Record<number, (data: unknown) => unknown>;
+  validate: (data: unknown) => data is T;
+}
+
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+function isEnvelope(value: unknown): value is Envelope {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Envelope).version === 'number' &&
+    'data' in value
+  );
+}
+
+function migrate<T>(schema: PersistedSchema<T>, envelope: Envelope): unknown {
+  if (envelope.version > schema.version) {
+    throw new Error(`${schema.key} was written by a newer version (${envelope.version})`);
+  }
+
+  let data = envelope.data;
+  for (let version = envelope.version + 1; version <= schema.version; version++) {
+    const step = schema.migrations?.[version];
+    if (step) data = step(data);
+  }
+  return data;
+}
+
+/** Keeps unreadable data aside so it can be inspected instead of silently overwritten. */
+async function quarantine(key: string, raw: string) {
+  try {
+    await AsyncStorage.setItem(`${key}.corrupt`, raw);
+    await AsyncStorage.removeItem(key);
+  } catch {
+    // Storage itself is failing; the default value is all we can offer.
+  }
+}
+
+export async function savePersisted<T>(schema: PersistedSchema<T>, value: T) {
+  const envelope: Envelope = { version: schema.version, data: value };
+  await AsyncStorage.setItem(schema.key, JSON.stringify(envelope));
+}
+
+export async function loadPersisted<T>(schema: PersistedSchema<T>): Promise<T> {
+  let raw: string | null;
+  try {
+    raw = await AsyncStorage.getItem(schema.key);
+  } catch {
+    return schema.defaultValue;
+  }
+  if (raw === null) return schema.defaultValue;
+
+  let data: T;
+  let version: number;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    const envelope = isEnvelope(parsed) ? parsed : { version: 0, data: parsed };
+    const migrated = migrate(schema, envelope);
+    if (!schema.validate(migrated)) {
+      throw new Error(`${schema.key} failed validation`);
+    }
+    data = migrated;
+    version = envelope.version;
+  } catch (error) {
+    console.warn(`Discarding stored ${schema.key}:`, error);
+    await quarantine(schema.key, raw);
+    return schema.defaultValue;
+  }
+
+  // The data is good even when it cannot be written back; the migration simply runs again next time.
+  if (version !== schema.version) {
+    try {
+      await savePersisted(schema, data);
+    } catch (error) {
+      console.warn(`Failed to save migrated ${schema.key}:`, error);
+    }
+  }
+  return data;
+}
+
+export interface PersistedStore<T> extends Store<T> {
+  hydrate: () => Promise<void>;
+  isHydrated: () => boolean;
+  /** Resolves once every change made so far has been written. */
+  flush: () => Promise<void>;
+}
+
+/**
+ * A store whose value is loaded from and written back to local storage.
+ * Writes are queued so they land in the order they were made.
+ */
+export function createPersistedStore<T>(schema: PersistedSchema<T>): PersistedStore<T> {
+  const store = createStore<T>(schema.defaultValue);
+  const hydrationListeners = new Set<Listener>();
+  let hydrated = false;
+  let hydration: Promise<void> | null = null;
+  let writes = Promise.resolve();
+
+  store.subscribe(() => {
+    if (!hydrated) return;
+    const value = store.getState();
+    writes = writes
+      .then(() => savePersisted(schema, value))
+      .catch((error) => console.warn(`Failed to save ${schema.key}:`, error));
+  });
+
+  const hydrate = () => {
+    hydration ??= loadPersisted(schema).then((value) => {
+      store.setState(value);
+      hydrated = true;
+      hydrationListeners.forEach((listener) => listener());
+    });
+    return hydration;
+  };
+
+  return {
+    ...store,
+    subscribe: (listener) => {
+      const unsubscribe = store.subscribe(listener);
+      hydrationListeners.add(listener);
+      return () => {
+        unsubscribe();
+        hydrationListeners.delete(listener);
+      };
+    },
+    hydrate,
+    isHydrated: () => hydrated,
+    flush: () => writes,
+  };
+}
+
+export async function hydrateStores(stores: Pick<PersistedStore<unknown>, 'hydrate'>[]) {
+  await Promise.all(stores.map((store) => store.hydrate()));
+}
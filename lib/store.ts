@@ -0,0 +1,34 @@
+export type Listener = () => void;
+
+export type StateUpdate<T> = T | ((prev: T) => T);
+
+export interface Store<T> {
+  getState: () => T;
+  setState: (next: StateUpdate<T>) => void;
+  subscribe: (listener: Listener) => () => void;
+}
+
+/**
+ * A minimal observable value shared between screens.
+ * Pair it with `useStore` to re-render when the value changes.
+ */
+export function createStore<T>(initialState: T): Store<T> {
+  let state = initialState;
+  const listeners = new Set<Listener>();
+
+  return {
+    getState: () => state,
+    setState: (next) => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(state) : next;
+      if (Object.is(value, state)) return;
+      state = value;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
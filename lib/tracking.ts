@@ -0,0 +1,158 @@
+import * as Location from 'expo-location';
+
+import { dispatchAlert } from '@/lib/alerts/dispatch';
+import type { EmergencyContact } from '@/lib/contacts';
+import { incidentStore, logIncident } from '@/lib/incident';
+import { buildLocationText, type Coordinates } from '@/lib/location-links';
+import { settingsStore } from '@/lib/settings';
+import { createStore } from '@/lib/store';
+
+export interface Breadcrumb extends Coordinates {
+  at: number;
+  /** Metres, as reported by the OS. */
+  accuracy: number | null;
+  /** Metres per second; `null` when the OS cannot tell. */
+  speed: number | null;
+}
+
+export type TrackingReason = 'sos' | 'safewalk';
+
+export interface TrackingState {
+  /** Why tracking is running; empty when it is stopped. */
+  reasons: TrackingReason[];
+  lastFix: Breadcrumb | null;
+  trail: Breadcrumb[];
+  lastUpdateSentAt: number | null;
+}
+
+/** Oldest points are dropped beyond this, roughly an hour at the watch interval. */
+const MAX_TRAIL_LENGTH = 720;
+
+export const trackingStore = createStore<TrackingState>({
+  reasons: [],
+  lastFix: null,
+  trail: [],
+  lastUpdateSentAt: null,
+});
+
+export function toBreadcrumb({ coords, timestamp }: Location.LocationObject): Breadcrumb {
+  return {
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    accuracy: coords.accuracy,
+    speed: coords.speed !== null && coords.speed >= 0 ? coords.speed : null,
+    at: timestamp,
+  };
+}
+
+/** Records a one-off fix without adding it to the trail. */
+export function recordFix(location: Location.LocationObject) {
+  trackingStore.setState((state) => ({ ...state, lastFix: toBreadcrumb(location) }));
+}
+
+let subscription: Location.LocationSubscription | null = null;
+let updateTimer: ReturnType<typeof setInterval> | null = null;
+let recipients: EmergencyContact[] = [];
+
+function appendBreadcrumb(location: Location.LocationObject) {
+  const crumb = toBreadcrumb(location);
+  trackingStore.setState((state) => ({
+    ...state,
+    lastFix: crumb,
+    trail: [...state.trail, crumb].slice(-MAX_TRAIL_LENGTH),
+  }));
+}
+
+export function buildLocationUpdateMessage(fix: Breadcrumb) {
+  const lines = ['📍 Live location update from SosDost', buildLocationText(fix)];
+  if (fix.speed !== null) lines.push(`Moving at ${Math.round(fix.speed * 3.6)} km/h`);
+  lines.push(`As of ${new Date(fix.at).toLocaleTimeString()}`);
+  return lines.join('\n');
+}
+
+/**
+ * Without a background gateway the update waits in the outbox, where each
+ * newer update replaces the last so only the latest position is offered.
+ */
+async function sendLocationUpdate() {
+  const { lastFix } = trackingStore.getState();
+  if (!lastFix || recipients.length === 0) return;
+  await dispatchAlert(recipients, buildLocationUpdateMessage(lastFix), { background: true, topic: 'tracking' });
+  trackingStore.setState((state) => ({ ...state, lastUpdateSentAt: Date.now() }));
+}
+
+function describeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Starts watching position for `reason`. Several reasons can overlap (a
+ * Safewalk that turns into an SOS); the watch runs until all have stopped.
+ * Never rejects: a watch that cannot start is logged on the incident.
+ */
+export async function startTracking(reason: TrackingReason, alertRecipients: EmergencyContact[]) {
+  try {
+    await startWatching(reason, alertRecipients);
+  } catch (error) {
+    console.warn('Live tracking failed to start:', error);
+    logIncident('tracking', `Live tracking could not start: ${describeError(error)}`);
+  }
+}
+
+async function startWatching(reason: TrackingReason, alertRecipients: EmergencyContact[]) {
+  recipients = alertRecipients;
+  const { reasons } = trackingStore.getState();
+  if (reasons.includes(reason)) return;
+
+  const starting = reasons.length === 0;
+  trackingStore.setState((state) => ({
+    ...state,
+    reasons: [...state.reasons, reason],
+    trail: starting ? [] : state.trail,
+  }));
+  if (!starting) return;
+
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    logIncident('tracking', 'Live tracking unavailable: location permission denied');
+    return;
+  }
+  // Tracking may have been stopped while the permission prompt was open.
+  if (trackingStore.getState().reasons.length === 0) return;
+
+  subscription = await Location.watchPositionAsync(
+    { accuracy: Location.Accuracy.High, timeInterval: 5000, distanceInterval: 10 },
+    appendBreadcrumb
+  );
+  if (trackingStore.getState().reasons.length === 0) {
+    subscription.remove();
+    subscription = null;
+    return;
+  }
+  const intervalMs = settingsStore.getState().trackingUpdateIntervalMin * 60 * 1000;
+  updateTimer = setInterval(() => {
+    sendLocationUpdate().catch((error) => logIncident('tracking', `Location update failed: ${describeError(error)}`));
+  }, intervalMs);
+  logIncident('tracking', 'Live tracking started');
+}
+
+export function stopTracking(reason: TrackingReason) {
+  const { reasons } = trackingStore.getState();
+  if (!reasons.includes(reason)) return;
+
+  const remaining = reasons.filter((r) => r !== reason);
+  trackingStore.setState((state) => ({ ...state, reasons: remaining }));
+  if (remaining.length > 0) return;
+
+  subscription?.remove();
+  subscription = null;
+  if (updateTimer) clearInterval(updateTimer);
+  updateTimer = null;
+  recipients = [];
+  logIncident('tracking', `Live tracking stopped after ${trackingStore.getState().trail.length} points`);
+}
+
+incidentStore.subscribe(() => {
+  const { phase } = incidentStore.getState();
+  if (phase === 'resolved' || phase === 'cancelled') stopTracking('sos');
+});
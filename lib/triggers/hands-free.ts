@@ -0,0 +1,96 @@
+import * as Haptics from 'expo-haptics';
+import { Accelerometer } from 'expo-sensors';
+import { Platform } from 'react-native';
+import { VolumeManager } from 'react-native-volume-manager';
+
+import { incidentStore, isIncidentOpen } from '@/lib/incident';
+import { settingsStore } from '@/lib/settings';
+import { reportSos, triggerSos } from '@/lib/sos';
+import { createShakeDetector, SHAKE_PROFILES } from '@/lib/triggers/shake';
+import type { MotionSample, TriggerSource, VolumePress } from '@/lib/triggers/types';
+import { createVolumeSequenceDetector } from '@/lib/triggers/volume-keys';
+
+const SAMPLE_INTERVAL_MS = 50;
+
+export const accelerometerSource: TriggerSource<MotionSample> = {
+  start: (onEvent) => {
+    Accelerometer.setUpdateInterval(SAMPLE_INTERVAL_MS);
+    const subscription = Accelerometer.addListener(({ x, y, z }) => onEvent({ x, y, z, at: Date.now() }));
+    return () => subscription.remove();
+  },
+};
+
+/**
+ * Neither platform hands apps the keys themselves, so presses are inferred
+ * from volume changes. They are only seen while the app is running.
+ */
+export const volumeKeySource: TriggerSource<VolumePress> = {
+  start: (onEvent) => {
+    let previous: number | null = null;
+    VolumeManager.getVolume().then(({ volume }) => {
+      previous ??= volume;
+    });
+    const subscription = VolumeManager.addVolumeListener(({ volume }) => {
+      if (previous !== null && volume !== previous) {
+        onEvent({ direction: volume > previous ? 'up' : 'down', at: Date.now() });
+      }
+      previous = volume;
+    });
+    return () => subscription.remove();
+  },
+};
+
+export const volumeKeysSupported = Platform.OS === 'ios' || Platform.OS === 'android';
+
+interface Sources {
+  motion: TriggerSource<MotionSample>;
+  volume: TriggerSource<VolumePress>;
+}
+
+const DEVICE_SOURCES: Sources = { motion: accelerometerSource, volume: volumeKeySource };
+let sources = DEVICE_SOURCES;
+
+let stopShake: (() => void) | null = null;
+let stopVolume: (() => void) | null = null;
+let appliedKey: string | null = null;
+
+function fire(reason: string) {
+  if (isIncidentOpen(incidentStore.getState().phase)) return;
+  Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+  // Standing down is on the SOS screen, behind the cancel PIN.
+  reportSos(triggerSos({ reason }));
+}
+
+function applySettings(force = false) {
+  if (!settingsStore.isHydrated()) return;
+  const { shakeSensitivity, volumeKeyTrigger } = settingsStore.getState();
+  const key = `${shakeSensitivity}:${volumeKeyTrigger}`;
+  if (key === appliedKey && !force) return;
+  appliedKey = key;
+
+  stopShake?.();
+  stopVolume?.();
+  stopShake = null;
+  stopVolume = null;
+
+  if (shakeSensitivity !== 'off') {
+    const detect = createShakeDetector(SHAKE_PROFILES[shakeSensitivity]);
+    stopShake = sources.motion.start((sample) => {
+      if (detect(sample)) fire('Shake pattern detected');
+    });
+  }
+  if (volumeKeyTrigger && volumeKeysSupported) {
+    const detect = createVolumeSequenceDetector();
+    stopVolume = sources.volume.start((press) => {
+      if (detect(press)) fire('Volume key sequence detected');
+    });
+  }
+}
+
+/** Replaces the device sensors, e.g. with replayed traces. Pass `null` to restore them. */
+export function setTriggerSources(overrides: Partial<Sources> | null) {
+  sources = { ...DEVICE_SOURCES, ...overrides };
+  applySettings(true);
+}
+
+settingsStore.subscribe(() => applySettings());
@@ -0,0 +1,32 @@
+import type { TriggerSource } from '@/lib/triggers/types';
+
+/**
+ * Plays a recorded trace back in real time as if it came from the device,
+ * for trying detection end to end without shaking a phone. Timestamps are
+ * shifted so the trace starts now.
+ */
+export function createReplaySource<T extends { at: number }>(trace: T[]): TriggerSource<T> {
+  return {
+    start: (onEvent) => {
+      if (trace.length === 0) return () => {};
+      const first = trace[0].at;
+      const startedAt = Date.now();
+      const timers = trace.map((event) =>
+        setTimeout(() => onEvent({ ...event, at: startedAt + event.at - first }), event.at - first)
+      );
+      return () => timers.forEach(clearTimeout);
+    },
+  };
+}
+
+/** Records `durationMs` of events from `source`, e.g. to save a trace that misfired. */
+export function captureTrace<T>(source: TriggerSource<T>, durationMs: number): Promise<T[]> {
+  const events: T[] = [];
+  const stop = source.start((event) => events.push(event));
+  return new Promise((resolve) =>
+    setTimeout(() => {
+      stop();
+      resolve(events);
+    }, durationMs)
+  );
+}
@@ -0,0 +1,70 @@
+import type { MotionSample } from '@/lib/triggers/types';
+
+export type ShakeSensitivity = 'low' | 'medium' | 'high';
+
+export interface ShakeProfile {
+  /** Acceleration on top of gravity, in g, that counts as one shake. */
+  threshold: number;
+  /** Shakes needed within `windowMs` to fire. */
+  shakes: number;
+  windowMs: number;
+}
+
+export const SHAKE_PROFILES: Record<ShakeSensitivity, ShakeProfile> = {
+  low: { threshold: 2.5, shakes: 6, windowMs: 2000 },
+  medium: { threshold: 2, shakes: 5, windowMs: 2500 },
+  high: { threshold: 1.5, shakes: 4, windowMs: 3000 },
+};
+
+/** Share of each sample in the running gravity estimate: slow enough that shaking averages out. */
+const GRAVITY_SMOOTHING = 0.1;
+/** Keeps one long bout of shaking from firing again straight after. */
+const COOLDOWN_MS = 5000;
+
+type Vector = Pick<MotionSample, 'x' | 'y' | 'z'>;
+
+export function magnitude({ x, y, z }: Vector) {
+  return Math.sqrt(x * x + y * y + z * z);
+}
+
+function dot(a: Vector, b: Vector) {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+/** Returns a function that is fed samples in order and answers `true` when the pattern completes. */
+export function createShakeDetector(profile: ShakeProfile) {
+  let gravity: Vector | null = null;
+  let lastSwing: Vector | null = null;
+  let shakes: number[] = [];
+  let quietUntil = 0;
+
+  return (sample: MotionSample) => {
+    const reference: Vector = gravity ?? sample;
+    const swing = { x: sample.x - reference.x, y: sample.y - reference.y, z: sample.z - reference.z };
+    gravity = {
+      x: reference.x + (sample.x - reference.x) * GRAVITY_SMOOTHING,
+      y: reference.y + (sample.y - reference.y) * GRAVITY_SMOOTHING,
+      z: reference.z + (sample.z - reference.z) * GRAVITY_SMOOTHING,
+    };
+    if (sample.at < quietUntil || magnitude(swing) < profile.threshold) return false;
+
+    // A shake swings back against the last one. That counts each swing once,
+    // however many samples it spans, and ignores footfalls when running: they
+    // reach 2–3 g but all push the same way.
+    shakes = shakes.filter((at) => sample.at - at <= profile.windowMs);
+    if (shakes.length > 0 && lastSwing && dot(swing, lastSwing) >= 0) return false;
+    lastSwing = swing;
+
+    shakes = [...shakes, sample.at];
+    if (shakes.length < profile.shakes) return false;
+    shakes = [];
+    quietUntil = sample.at + COOLDOWN_MS;
+    return true;
+  };
+}
+
+/** Runs a recorded trace through a fresh detector and returns the times it would have fired. */
+export function replayMotionTrace(trace: MotionSample[], sensitivity: ShakeSensitivity) {
+  const detect = createShakeDetector(SHAKE_PROFILES[sensitivity]);
+  return trace.filter(detect).map((sample) => sample.at);
+}
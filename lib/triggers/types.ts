@@ -0,0 +1,18 @@
+/** One accelerometer reading in g (about 1 at rest), stamped in ms. */
+export interface MotionSample {
+  x: number;
+  y: number;
+  z: number;
+  at: number;
+}
+
+export interface VolumePress {
+  direction: 'up' | 'down';
+  at: number;
+}
+
+/** Where a hands-free trigger reads its events: the device, or a recorded trace. */
+export interface TriggerSource<T> {
+  /** Starts delivering events and returns a function that stops them. */
+  start: (onEvent: (event: T) => void) => () => void;
+}
@@ -0,0 +1,30 @@
+import type { VolumePress } from '@/lib/triggers/types';
+
+export interface VolumePattern {
+  presses: number;
+  windowMs: number;
+}
+
+/**
+ * Five quick presses alternating up and down. Alternating still registers
+ * with the volume already at its top or bottom, where one direction is lost.
+ */
+export const VOLUME_PATTERN: VolumePattern = { presses: 5, windowMs: 3000 };
+
+export function createVolumeSequenceDetector(pattern: VolumePattern = VOLUME_PATTERN) {
+  let run: VolumePress[] = [];
+
+  return (press: VolumePress) => {
+    const last = run[run.length - 1];
+    run = last && last.direction !== press.direction ? [...run, press] : [press];
+    run = run.filter((earlier) => press.at - earlier.at <= pattern.windowMs);
+    if (run.length < pattern.presses) return false;
+    run = [];
+    return true;
+  };
+}
+
+export function replayVolumeTrace(trace: VolumePress[], pattern: VolumePattern = VOLUME_PATTERN) {
+  const detect = createVolumeSequenceDetector(pattern);
+  return trace.filter(detect).map((press) => press.at);
+}
@@ -0,0 +1,235 @@
+import { File } from 'expo-file-system';
+import * as Network from 'expo-network';
+import { AppState } from 'react-native';
+
+import { evidenceStore, type EvidenceItem } from '@/lib/evidence';
+import { fetchWithTimeout } from '@/lib/http';
+import { settingsStore } from '@/lib/settings';
+import { createPersistedStore } from '@/lib/storage';
+import { chainIdOf, manifestStore } from '@/lib/vault';
+
+export type UploadStatus = 'queued' | 'uploading' | 'retrying' | 'done' | 'failed';
+
+export interface UploadJob {
+  evidenceId: string;
+  status: UploadStatus;
+  /** Bytes the server has confirmed receiving. */
+  offset: number;
+  size: number | null;
+  attempts: number;
+  nextAttemptAt: number;
+  error: string | null;
+  updatedAt: number;
+}
+
+const CHUNK_BYTES = 256 * 1024;
+const BASE_RETRY_MS = 5_000;
+const MAX_RETRY_MS = 10 * 60_000;
+// A stalled request is retried like any other network failure.
+const REQUEST_TIMEOUT_MS = 30_000;
+
+/** The server refused the upload; retrying the same request will not help. */
+class UploadRejected extends Error {}
+
+function isUploadJob(value: unknown): value is UploadJob {
+  if (typeof value !== 'object' || value === null) return false;
+  const job = value as UploadJob;
+  return (
+    typeof job.evidenceId === 'string' &&
+    ['queued', 'uploading', 'retrying', 'done', 'failed'].includes(job.status) &&
+    typeof job.offset === 'number' &&
+    typeof job.nextAttemptAt === 'number'
+  );
+}
+
+export const uploadStore = createPersistedStore<UploadJob[]>({
+  key: 'sosdost.uploads',
+  version: 1,
+  defaultValue: [],
+  validate: (data): data is UploadJob[] => Array.isArray(data) && data.every(isUploadJob),
+});
+
+/** Exponential with jitter, so devices coming back online do not retry in lockstep. */
+export function retryDelay(attempts: number) {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+  return delay / 2 + (Math.random() * delay) / 2;
+}
+
+function updateJob(evidenceId: string, changes: Partial<UploadJob>) {
+  uploadStore.setState((jobs) =>
+    jobs.map((job) => (job.evidenceId === evidenceId ? { ...job, ...changes, updatedAt: Date.now() } : job))
+  );
+}
+
+/** The server's count of bytes received, out of a file of `size` bytes. */
+async function readOffset(response: Response, size: number) {
+  // 409 means the server holds a different amount than we assumed; resume from its count.
+  if (response.ok || response.status === 409) {
+    const { offset } = ((await response.json()) ?? {}) as { offset?: unknown };
+    if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0 || offset > size) {
+      throw new Error(`Server reported an invalid offset (${JSON.stringify(offset)})`);
+    }
+    return offset;
+  }
+  const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+  if (!retryable) throw new UploadRejected(`Server refused the upload (${response.status})`);
+  throw new Error(`Server responded ${response.status}`);
+}
+
+async function uploadManifest(base: string, chainId: string) {
+  const manifest = manifestStore.getState()[chainId];
+  if (!manifest) return;
+  const response = await fetchWithTimeout(
+    `${base}/manifests/${encodeURIComponent(chainId)}`,
+    { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(manifest) },
+    REQUEST_TIMEOUT_MS
+  );
+  if (!response.ok) throw new Error(`Manifest upload failed (${response.status})`);
+}
+
+/**
+ * Sends one sealed item: a handshake that returns how much the server already
+ * has, then the remaining ciphertext in chunks, then the chain's manifest.
+ */
+async function uploadItem(base: string, item: EvidenceItem) {
+  const file = new File(item.uri);
+  if (!item.seal || !file.exists) throw new UploadRejected('The evidence file is no longer on this device');
+  const size = file.size;
+
+  const { uri, ...metadata } = item;
+  let offset = await readOffset(
+    await fetchWithTimeout(
+      `${base}/uploads`,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ ...metadata, size }) },
+      REQUEST_TIMEOUT_MS
+    ),
+    size
+  );
+  updateJob(item.id, { status: 'uploading', size, offset, error: null });
+
+  const handle = file.open();
+  try {
+    while (offset < size) {
+      handle.offset = offset;
+      const chunk = handle.readBytes(Math.min(CHUNK_BYTES, size - offset));
+      const sent = offset;
+      offset = await readOffset(
+        await fetchWithTimeout(
+          `${base}/uploads/${encodeURIComponent(item.id)}?offset=${offset}`,
+          { method: 'PUT', headers: { 'Content-Type': 'application/octet-stream' }, body: chunk },
+          REQUEST_TIMEOUT_MS
+        ),
+        size
+      );
+      updateJob(item.id, { offset });
+      // Resending the same chunk forever would never finish; back off and start over instead.
+      if (offset === sent) throw new Error('Server accepted none of the chunk');
+    }
+  } finally {
+    handle.close();
+  }
+
+  await uploadManifest(base, chainIdOf(item));
+  updateJob(item.id, { status: 'done', offset: size, error: null });
+}
+
+function nextDueJob() {
+  const now = Date.now();
+  return uploadStore
+    .getState()
+    .find((job) => job.status !== 'done' && job.status !== 'failed' && job.nextAttemptAt <= now);
+}
+
+let processing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleRetry() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const pending = uploadStore.getState().filter((job) => job.status === 'retrying');
+  if (pending.length === 0) return;
+  const soonest = Math.min(...pending.map((job) => job.nextAttemptAt));
+  retryTimer = setTimeout(processUploads, Math.max(0, soonest - Date.now()));
+}
+
+/** Works through every due job, one at a time. Safe to call whenever something changes. */
+export async function processUploads() {
+  const endpoint = settingsStore.getState().evidenceUploadUrl;
+  if (processing || !endpoint || !uploadStore.isHydrated()) return;
+  const base = endpoint.replace(/\/+$/, '');
+  processing = true;
+  try {
+    let job: UploadJob | undefined;
+    while ((job = nextDueJob())) {
+      const { evidenceId, attempts } = job;
+      const item = evidenceStore.getState().find((evidence) => evidence.id === evidenceId);
+      try {
+        if (!item) throw new UploadRejected('The evidence item was removed');
+        await uploadItem(base, item);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        updateJob(evidenceId, {
+          status: error instanceof UploadRejected ? 'failed' : 'retrying',
+          attempts: attempts + 1,
+          nextAttemptAt: Date.now() + retryDelay(attempts + 1),
+          error: message,
+        });
+      }
+    }
+  } finally {
+    processing = false;
+    scheduleRetry();
+  }
+}
+
+function makeDue(statuses: UploadStatus[]) {
+  const now = Date.now();
+  uploadStore.setState((jobs) =>
+    jobs.map((job) => (statuses.includes(job.status) ? { ...job, status: 'queued', nextAttemptAt: now } : job))
+  );
+  processUploads();
+}
+
+/** Tries failed and waiting uploads again straight away. */
+export function retryUploads() {
+  makeDue(['retrying', 'failed']);
+}
+
+function enqueueSealedEvidence() {
+  if (!evidenceStore.isHydrated() || !uploadStore.isHydrated()) return;
+  const queued = new Set(uploadStore.getState().map((job) => job.evidenceId));
+  const fresh = evidenceStore.getState().filter((item) => item.seal && !queued.has(item.id));
+  if (fresh.length === 0) return;
+  const now = Date.now();
+  uploadStore.setState((jobs) => [
+    ...jobs,
+    ...fresh.map(
+      (item): UploadJob => ({
+        evidenceId: item.id,
+        status: 'queued',
+        offset: 0,
+        size: null,
+        attempts: 0,
+        nextAttemptAt: now,
+        error: null,
+        updatedAt: now,
+      })
+    ),
+  ]);
+  processUploads();
+}
+
+evidenceStore.subscribe(enqueueSealedEvidence);
+uploadStore.subscribe(enqueueSealedEvidence);
+settingsStore.subscribe(() => {
+  processUploads();
+});
+
+Network.addNetworkStateListener(({ isInternetReachable }) => {
+  // Back online: skip the rest of the backoff, but leave refused uploads alone.
+  if (isInternetReachable) makeDue(['retrying']);
+});
+
+AppState.addEventListener('change', (next) => {
+  if (next === 'active') processUploads();
+});
@@ -0,0 +1,344 @@
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 as sha256Hasher } from '@noble/hashes/sha2';
+import * as Crypto from 'expo-crypto';
+import { Directory, File, Paths } from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+
+import { EVIDENCE_DIR, evidenceStore, type EvidenceItem } from '@/lib/evidence';
+import { createPersistedStore } from '@/lib/storage';
+
+export interface EvidenceSeal {
+  /** AES-256-GCM nonce, hex. */
+  nonce: string;
+  /** Extension of the original file, so a decrypted copy can be played. */
+  extension: string;
+  /** SHA-256 of the original file, hex. */
+  sha256: string;
+  /**
+   * Plaintext bytes per encrypted chunk. Each chunk is its own GCM message;
+   * items sealed before chunking have none and are one message.
+   */
+  chunkBytes?: number;
+  /** `chainHash` of the item sealed before this one in the same chain. */
+  prevHash: string;
+  chainHash: string;
+}
+
+export interface ManifestEntry {
+  id: string;
+  kind: EvidenceItem['kind'];
+  capturedAt: number;
+  chainHash: string;
+}
+
+/** The signed list of everything in one chain; anything missing or altered fails verification. */
+export interface SignedManifest {
+  chainId: string;
+  entries: ManifestEntry[];
+  head: string;
+  signedAt: number;
+  publicKey: string;
+  signature: string;
+}
+
+export interface VerificationResult {
+  ok: boolean;
+  problems: string[];
+}
+
+/** Evidence outside any incident shares one chain. */
+export const UNFILED_CHAIN = 'unfiled';
+const GENESIS_HASH = '0'.repeat(64);
+
+// Sealing runs while the phone is locked, so the keys must be readable then.
+const KEY_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+const VIEW_DIR = new Directory(Paths.cache, 'vault-view');
+
+// Recordings run to 100 MB a segment; sealing one chunk at a time keeps that out of the JS heap.
+const CHUNK_BYTES = 1024 * 1024;
+const TAG_BYTES = 16;
+
+function isSignedManifest(value: unknown): value is SignedManifest {
+  if (typeof value !== 'object' || value === null) return false;
+  const manifest = value as SignedManifest;
+  return (
+    typeof manifest.chainId === 'string' &&
+    Array.isArray(manifest.entries) &&
+    typeof manifest.head === 'string' &&
+    typeof manifest.signature === 'string'
+  );
+}
+
+export const manifestStore = createPersistedStore<Record<string, SignedManifest>>({
+  key: 'sosdost.vault.manifests',
+  version: 1,
+  defaultValue: {},
+  validate: (data): data is Record<string, SignedManifest> =>
+    typeof data === 'object' && data !== null && Object.values(data).every(isSignedManifest),
+});
+
+async function loadOrCreateKey(name: string) {
+  const stored = await SecureStore.getItemAsync(name, KEY_OPTIONS);
+  if (stored) return hexToBytes(stored);
+  const key = Crypto.getRandomBytes(32);
+  await SecureStore.setItemAsync(name, bytesToHex(key), KEY_OPTIONS);
+  return key;
+}
+
+let keys: Promise<{ encryption: Uint8Array; signing: Uint8Array }> | null = null;
+
+function getKeys() {
+  keys ??= Promise.all([
+    loadOrCreateKey('sosdost.vault.encryptionKey'),
+    loadOrCreateKey('sosdost.vault.signingKey'),
+  ]).then(([encryption, signing]) => ({ encryption, signing }));
+  return keys;
+}
+
+export function chainIdOf(item: EvidenceItem) {
+  return item.incidentId ?? UNFILED_CHAIN;
+}
+
+/** Every chunk gets its own nonce: the item's nonce with the chunk index folded into its last four bytes. */
+function chunkNonce(nonce: Uint8Array, index: number) {
+  const chunk = nonce.slice();
+  const view = new DataView(chunk.buffer);
+  view.setUint32(8, view.getUint32(8) ^ index);
+  return chunk;
+}
+
+/**
+ * The item id is bound in as associated data, so ciphertexts cannot be swapped
+ * between items; the index and last-chunk flag stop chunks being reordered or dropped.
+ */
+function chunkAad(itemId: string, index: number, last: boolean) {
+  return utf8ToBytes(`${itemId}|${index}|${last ? 1 : 0}`);
+}
+
+function chainHashOf(prevHash: string, item: EvidenceItem, sha256: string) {
+  const link = [prevHash, item.id, item.kind, item.capturedAt, sha256].join('|');
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, link);
+}
+
+/** Sealed items of a chain, in the order they were sealed. */
+function chainItems(chainId: string) {
+  return evidenceStore.getState().filter((item) => item.seal && chainIdOf(item) === chainId);
+}
+
+function manifestPayload({ chainId, entries, head, signedAt }: Omit<SignedManifest, 'publicKey' | 'signature'>) {
+  return utf8ToBytes(JSON.stringify({ chainId, entries, head, signedAt }));
+}
+
+async function signManifest(chainId: string) {
+  const { signing } = await getKeys();
+  const entries: ManifestEntry[] = chainItems(chainId).map((item) => ({
+    id: item.id,
+    kind: item.kind,
+    capturedAt: item.capturedAt,
+    chainHash: item.seal!.chainHash,
+  }));
+  const unsigned = { chainId, entries, head: entries.at(-1)?.chainHash ?? GENESIS_HASH, signedAt: Date.now() };
+  const manifest: SignedManifest = {
+    ...unsigned,
+    publicKey: bytesToHex(ed25519.getPublicKey(signing)),
+    signature: bytesToHex(ed25519.sign(manifestPayload(unsigned), signing)),
+  };
+  manifestStore.setState((manifests) => ({ ...manifests, [chainId]: manifest }));
+}
+
+async function sealItem(item: EvidenceItem) {
+  const source = new File(item.uri);
+  if (!source.exists) {
+    console.warn(`Evidence ${item.id} vanished before it could be sealed`);
+    evidenceStore.setState((items) => items.filter((other) => other.id !== item.id));
+    return;
+  }
+
+  const { encryption } = await getKeys();
+  const nonce = Crypto.getRandomBytes(12);
+  const hash = sha256Hasher.create();
+  // Replaces any partial ciphertext left by an attempt that was interrupted.
+  const target = new File(EVIDENCE_DIR, `${item.id}.enc`);
+  target.create({ overwrite: true });
+  const input = source.open();
+  const output = target.open();
+  try {
+    const size = input.size ?? 0;
+    // An empty file still gets one (empty) chunk, so its tag can be checked.
+    for (let index = 0; ; index++) {
+      const plain = input.readBytes(Math.min(CHUNK_BYTES, size - (input.offset ?? 0)));
+      const last = (input.offset ?? 0) >= size;
+      hash.update(plain);
+      output.writeBytes(gcm(encryption, chunkNonce(nonce, index), chunkAad(item.id, index, last)).encrypt(plain));
+      if (last) break;
+    }
+  } finally {
+    input.close();
+    output.close();
+  }
+
+  const sha256 = bytesToHex(hash.digest());
+  const chainId = chainIdOf(item);
+  const prevHash = chainItems(chainId).at(-1)?.seal?.chainHash ?? GENESIS_HASH;
+  const seal: EvidenceSeal = {
+    nonce: bytesToHex(nonce),
+    extension: source.extension,
+    sha256,
+    chunkBytes: CHUNK_BYTES,
+    prevHash,
+    chainHash: await chainHashOf(prevHash, item, sha256),
+  };
+  // Move the item to the end so array order stays the chain order.
+  evidenceStore.setState((items) => [
+    ...items.filter((other) => other.id !== item.id),
+    { ...item, uri: target.uri, seal },
+  ]);
+  await signManifest(chainId);
+  // The original goes only once the seal is on disk; a crash before then seals it again.
+  await Promise.all([evidenceStore.flush(), manifestStore.flush()]);
+  source.delete();
+}
+
+/** Deletes originals that a crash left behind after their seal was saved. */
+function deleteSealedOriginals() {
+  for (const item of evidenceStore.getState()) {
+    if (!item.seal) continue;
+    const original = new File(EVIDENCE_DIR, `${item.id}${item.seal.extension}`);
+    if (original.uri !== item.uri && original.exists) original.delete();
+  }
+}
+
+let sweptOriginals = false;
+
+let sealing = false;
+
+/** Encrypts and chains every captured item that is not sealed yet. */
+export async function sealPendingEvidence() {
+  if (sealing || !evidenceStore.isHydrated() || !manifestStore.isHydrated()) return;
+  sealing = true;
+  try {
+    if (!sweptOriginals) {
+      sweptOriginals = true;
+      deleteSealedOriginals();
+    }
+    let next: EvidenceItem | undefined;
+    while ((next = evidenceStore.getState().find((item) => !item.seal))) {
+      await sealItem(next);
+    }
+  } catch (error) {
+    console.warn('Sealing evidence failed:', error);
+  } finally {
+    sealing = false;
+  }
+}
+
+evidenceStore.subscribe(() => {
+  sealPendingEvidence();
+});
+manifestStore.subscribe(() => {
+  sealPendingEvidence();
+});
+
+/** Decrypts `item` one chunk at a time, handing each plaintext chunk to `onChunk` in order. */
+async function decrypt(item: EvidenceItem & { seal: EvidenceSeal }, onChunk: (plain: Uint8Array) => void) {
+  const { encryption } = await getKeys();
+  const nonce = hexToBytes(item.seal.nonce);
+  const file = new File(item.uri);
+  const { chunkBytes } = item.seal;
+  if (!chunkBytes) {
+    onChunk(gcm(encryption, nonce, utf8ToBytes(item.id)).decrypt(await file.bytes()));
+    return;
+  }
+  const handle = file.open();
+  try {
+    const size = handle.size ?? 0;
+    for (let index = 0; ; index++) {
+      const remaining = size - (handle.offset ?? 0);
+      const length = Math.min(remaining, chunkBytes + TAG_BYTES);
+      const last = length === remaining;
+      const cipher = handle.readBytes(length);
+      onChunk(gcm(encryption, chunkNonce(nonce, index), chunkAad(item.id, index, last)).decrypt(cipher));
+      if (last) return;
+    }
+  } finally {
+    handle.close();
+  }
+}
+
+/** Writes a decrypted copy to the cache for viewing. Call `closeEvidence` when done. */
+export async function openEvidence(item: EvidenceItem) {
+  if (!item.seal) return item.uri;
+  if (!VIEW_DIR.exists) VIEW_DIR.create({ intermediates: true });
+  const copy = new File(VIEW_DIR, `${item.id}${item.seal.extension}`);
+  copy.create({ overwrite: true });
+  const output = copy.open();
+  try {
+    await decrypt({ ...item, seal: item.seal }, (plain) => output.writeBytes(plain));
+  } catch (error) {
+    output.close();
+    copy.delete();
+    throw error;
+  }
+  output.close();
+  return copy.uri;
+}
+
+export function closeEvidence() {
+  if (VIEW_DIR.exists) VIEW_DIR.delete();
+}
+
+/**
+ * Checks a chain against its signed manifest: the signature, that every listed
+ * item is still present and decrypts to its recorded hash, and that the links hold.
+ */
+export async function verifyChain(chainId: string): Promise<VerificationResult> {
+  const problems: string[] = [];
+  const manifest = manifestStore.getState()[chainId];
+  if (!manifest) return { ok: false, problems: ['No signed manifest exists for this evidence.'] };
+
+  const { signing } = await getKeys();
+  if (manifest.publicKey !== bytesToHex(ed25519.getPublicKey(signing))) {
+    problems.push('The manifest was signed by a different key.');
+  }
+  try {
+    if (!ed25519.verify(hexToBytes(manifest.signature), manifestPayload(manifest), hexToBytes(manifest.publicKey))) {
+      problems.push('The manifest signature does not match its contents.');
+    }
+  } catch {
+    problems.push('The manifest signature is malformed.');
+  }
+
+  const items = new Map(chainItems(chainId).map((item) => [item.id, item]));
+  let prevHash = GENESIS_HASH;
+  for (const entry of manifest.entries) {
+    const item = items.get(entry.id);
+    items.delete(entry.id);
+    if (!item?.seal || !new File(item.uri).exists) {
+      problems.push(`${entry.kind} from ${new Date(entry.capturedAt).toLocaleString()} has been deleted.`);
+      prevHash = entry.chainHash;
+      continue;
+    }
+    try {
+      const hash = sha256Hasher.create();
+      await decrypt({ ...item, seal: item.seal }, (plain) => hash.update(plain));
+      if (bytesToHex(hash.digest()) !== item.seal.sha256) problems.push(`${item.id} does not match its recorded hash.`);
+    } catch {
+      problems.push(`${item.id} has been altered and no longer decrypts.`);
+    }
+    if (item.seal.prevHash !== prevHash || (await chainHashOf(prevHash, item, item.seal.sha256)) !== entry.chainHash) {
+      problems.push(`${item.id} breaks the hash chain.`);
+    }
+    prevHash = entry.chainHash;
+  }
+  if (prevHash !== manifest.head) problems.push('The manifest head does not match its last entry.');
+  for (const extra of items.values()) {
+    problems.push(`${extra.id} is not covered by the signed manifest.`);
+  }
+
+  return { ok: problems.length === 0, problems };
+}
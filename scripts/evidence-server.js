@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+
+/**
+ * A minimal reference server for the evidence upload protocol, for testing without a real backend.
+ * Set the app's `evidenceUploadUrl` to http://<your-computer's-ip>:<port> and run `npm run evidence-server`.
+ *
+ *   POST /uploads                    JSON metadata incl. `id` and `size`  -> { offset }
+ *   PUT  /uploads/:id?offset=N       raw bytes appended at N               -> { offset } (409 with { offset } if N is wrong)
+ *   PUT  /manifests/:chainId         signed manifest JSON                  -> { ok: true }
+ *
+ * Uploads are written to ./evidence-uploads. Items stay encrypted; the server never sees the vault key.
+ */
+
+const fs = require("fs");
+const http = require("http");
+const path = require("path");
+
+const port = Number(process.env.PORT) || 4000;
+const storageDir = path.resolve(process.env.EVIDENCE_DIR || "evidence-uploads");
+const maxChunkBytes = 4 * 1024 * 1024;
+
+fs.mkdirSync(path.join(storageDir, "manifests"), { recursive: true });
+
+const safeName = (value) => String(value).replace(/[^a-zA-Z0-9._-]/g, "_");
+const dataPath = (id) => path.join(storageDir, `${safeName(id)}.bin`);
+const metaPath = (id) => path.join(storageDir, `${safeName(id)}.json`);
+
+const receivedBytes = (id) => (fs.existsSync(dataPath(id)) ? fs.statSync(dataPath(id)).size : 0);
+
+const send = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req, limit) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let length = 0;
+    req.on("data", (chunk) => {
+      length += chunk.length;
+      if (length > limit) {
+        reject(new Error("Body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+const startUpload = async (req, res) => {
+  const metadata = JSON.parse((await readBody(req, 64 * 1024)).toString("utf8"));
+  if (typeof metadata.id !== "string" || typeof metadata.size !== "number") {
+    return send(res, 400, { error: "id and size are required" });
+  }
+  fs.writeFileSync(metaPath(metadata.id), JSON.stringify({ ...metadata, receivedAt: Date.now() }, null, 2));
+  const offset = receivedBytes(metadata.id);
+  console.log(`⬆️  ${metadata.id} (${metadata.kind}, ${metadata.size} bytes) starting at ${offset}`);
+  send(res, 200, { offset });
+};
+
+const appendChunk = async (req, res, id, offset) => {
+  if (!fs.existsSync(metaPath(id))) return send(res, 404, { error: "Unknown upload" });
+  const { size } = JSON.parse(fs.readFileSync(metaPath(id), "utf8"));
+  const current = receivedBytes(id);
+  if (offset !== current) return send(res, 409, { offset: current });
+
+  const chunk = await readBody(req, maxChunkBytes);
+  if (current + chunk.length > size) return send(res, 400, { error: "Chunk runs past the declared size" });
+  fs.appendFileSync(dataPath(id), chunk);
+  const next = current + chunk.length;
+  if (next === size) console.log(`✅ ${id} complete`);
+  send(res, 200, { offset: next });
+};
+
+const saveManifest = async (req, res, chainId) => {
+  const manifest = JSON.parse((await readBody(req, 1024 * 1024)).toString("utf8"));
+  fs.writeFileSync(path.join(storageDir, "manifests", `${safeName(chainId)}.json`), JSON.stringify(manifest, null, 2));
+  console.log(`📜 Manifest for ${chainId} (${manifest.entries?.length ?? 0} entries)`);
+  send(res, 200, { ok: true });
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  try {
+    if (req.method === "POST" && parts.length === 1 && parts[0] === "uploads") {
+      await startUpload(req, res);
+    } else if (req.method === "PUT" && parts.length === 2 && parts[0] === "uploads") {
+      await appendChunk(req, res, parts[1], Number(url.searchParams.get("offset")));
+    } else if (req.method === "PUT" && parts.length === 2 && parts[0] === "manifests") {
+      await saveManifest(req, res, parts[1]);
+    } else {
+      send(res, 404, { error: "Not found" });
+    }
+  } catch (error) {
+    console.error(`❌ ${req.method} ${url.pathname}: ${error.message}`);
+    if (!res.headersSent) send(res, 400, { error: error.message });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`📡 Evidence server listening on port ${port}, saving to ${storageDir}`);
+});